@@ -1,13 +1,24 @@
-import { existsSync } from "node:fs";
+import { existsSync, readFileSync } from "node:fs";
 import { basename, extname, resolve } from "node:path";
+import { stripVTControlCharacters } from "node:util";
 import { command } from "@gud/cli";
-import { benchmark, type RunOptions, type TestFunction } from "#src/lib/Benchmark";
+import { benchmark, type Hook, type RunOptions, type TestFunction } from "#src/lib/Benchmark";
+import { formatPercent } from "#src/lib/utils/formatPercent";
 import { Formatter, Logger } from "#src/lib/utils/Logger";
 import { loadModule } from "#src/lib/utils/loadModule";
 
+// Exports that are loaded as hooks instead of tests
+const HOOK_EXPORTS = ["setup", "teardown"];
+
+// The exit code when a test regressed past its threshold, distinct from test
+// failures (1) and interruptions (130)
+const REGRESSION_EXIT_CODE = 3;
+
 declare module "@gud/cli" {
   interface CustomOptionTypes {
     "gc-strategy": Required<RunOptions>["gcStrategy"];
+    isolation: Required<RunOptions>["isolation"];
+    schedule: Required<RunOptions>["schedule"];
     verbosity: 0 | 1 | 2;
   }
 }
@@ -28,6 +39,63 @@ export default command({
       type: "number",
       default: 1e5,
     },
+    time: {
+      alias: ["t"],
+      description:
+        "Time budget for each test in each cycle in MS, instead of a fixed number of runs",
+      type: "number",
+    },
+    targetRme: {
+      alias: ["target-rme", "rme"],
+      description:
+        "Keep running each test until its relative margin of error is below this value (e.g. 0.01 for ±1%)",
+      type: "number",
+    },
+    minSamples: {
+      description: "With a time budget, the minimum number of samples to take from each test",
+      type: "number",
+      default: 5,
+    },
+    maxSamples: {
+      description: "With a time budget, the maximum number of samples to take from each test",
+      type: "number",
+    },
+    timeout: {
+      description: "Stop a test if a single run takes longer than this many MS",
+      type: "number",
+    },
+    testTimeout: {
+      alias: ["test-timeout"],
+      description: "Stop a test if its runs take longer than this many MS in total",
+      type: "number",
+    },
+    memory: {
+      alias: ["m"],
+      description: "Track heap usage and allocations for each test",
+      type: "boolean",
+      default: false,
+    },
+    cpu: {
+      description: "Track CPU time, context switches and page faults for each test",
+      type: "boolean",
+      default: false,
+    },
+    eventLoopDelay: {
+      alias: ["event-loop-delay"],
+      description: "Record the event loop delay while each test runs",
+      type: "boolean",
+      default: false,
+    },
+    concurrency: {
+      description: "Measure throughput with this many calls to each test in flight after sampling",
+      type: "number",
+      default: 1,
+    },
+    bail: {
+      description: "Stop the benchmark when a test fails instead of running the rest",
+      type: "boolean",
+      default: false,
+    },
     coolDown: {
       alias: ["c"],
       description: "Cool down time between runs in MS",
@@ -39,11 +107,35 @@ export default command({
       type: "number",
       default: 1,
     },
+    confidence: {
+      alias: ["ci"],
+      description: "Confidence level for the margin of error (e.g. 0.9, 0.95, 0.99, 0.999)",
+      type: "number",
+      default: 0.95,
+    },
     preheat: {
       alias: ["p"],
-      description: "Number of preheat iterations",
+      description:
+        "Number of preheat iterations, or 'auto' to warm up each test until its times stabilize",
+      type: "string",
+      default: "1000",
+    },
+    preheatTime: {
+      alias: ["preheat-time"],
+      description: "With --preheat auto, the most time to spend warming up each test in MS",
       type: "number",
-      default: 1e3,
+    },
+    batchSize: {
+      alias: ["b"],
+      description: "Number of calls to time per sample, or 'auto' to choose one for each test",
+      type: "string",
+      default: "1",
+    },
+    subtractOverhead: {
+      alias: ["so"],
+      description: "Subtract the calibrated timing overhead from each sample",
+      type: "boolean",
+      default: false,
     },
     name: {
       alias: ["n"],
@@ -64,6 +156,21 @@ export default command({
       type: "boolean",
       default: false,
     },
+    baseline: {
+      description: "Compare the results to a JSON file exported with --export",
+      type: "string",
+    },
+    failOnRegression: {
+      alias: ["fail-on-regression"],
+      description:
+        "With --baseline, exit with an error if a test is this many percent slower than the baseline",
+      type: "number",
+    },
+    thresholds: {
+      description:
+        'With --baseline, a JSON file of regression thresholds in percent for individual tests (e.g. {"file#test": 5})',
+      type: "string",
+    },
     gcStrategy: {
       alias: ["gc"],
       description: "Garbage collection strategy",
@@ -78,19 +185,76 @@ export default command({
       type: "number",
       default: 1000,
     },
+    isolation: {
+      alias: ["i"],
+      description: "Run each test in a fresh worker thread or child process",
+      type: "string",
+      customType: "isolation",
+      choices: ["none", "worker", "process"],
+      default: "none",
+    },
+    schedule: {
+      alias: ["s"],
+      description: "The order to run the tests' samples in",
+      type: "string",
+      customType: "schedule",
+      choices: ["random", "round-robin", "blocked", "latin-square"],
+      default: "random",
+    },
+    seed: {
+      description: "Seed for the random schedule and other randomness, to reproduce a run",
+      type: "number",
+    },
   },
 
   handler: async ({ options }) => {
     const filePaths = await options.files();
     const runs = await options.runs();
+    const time = await options.time();
+    const targetRme = await options.targetRme();
+    const minSamples = await options.minSamples();
+    const maxSamples = await options.maxSamples();
+    const timeout = await options.timeout();
+    const testTimeout = await options.testTimeout();
+    const memory = await options.memory();
+    const cpu = await options.cpu();
+    const eventLoopDelay = await options.eventLoopDelay();
+    const concurrency = await options.concurrency();
+    const bail = await options.bail();
     const coolDown = await options.coolDown();
     const cycles = await options.cycles();
-    const preheat = await options.preheat();
+    const confidence = await options.confidence();
+    const preheatOption = await options.preheat();
+    const preheatTime = await options.preheatTime();
+    const subtractOverhead = await options.subtractOverhead();
+    const batchSizeOption = await options.batchSize();
     const customName = await options.name();
     const verbosity = await options.verbosity();
     const shouldExport = await options.export();
+    const baselinePath = await options.baseline();
+    const failOnRegression = await options.failOnRegression();
+    const thresholdsPath = await options.thresholds();
     const gcStrategy = await options.gcStrategy();
     const gcInterval = await options.gcInterval();
+    const isolation = await options.isolation();
+    const schedule = await options.schedule();
+    const seed = await options.seed();
+
+    // Stop on Ctrl+C and show what was measured so far. A second Ctrl+C exits
+    // right away.
+    const controller = new AbortController();
+    const { signal } = controller;
+    process.once("SIGINT", () => controller.abort());
+
+    const preheat = preheatOption === "auto" ? "auto" : Number(preheatOption);
+    if (preheat !== "auto" && !(Number.isInteger(preheat) && preheat >= 0)) {
+      throw new Error(`Invalid preheat: ${preheatOption}`);
+    }
+
+    const batchSize = batchSizeOption === "auto" ? "auto" : Number(batchSizeOption);
+    if (batchSize !== "auto" && !(Number.isInteger(batchSize) && batchSize > 0)) {
+      throw new Error(`Invalid batch size: ${batchSizeOption}`);
+    }
 
     const resolvedFiles: string[] = [];
 
@@ -103,6 +267,32 @@ export default command({
       resolvedFiles.push(resolvedPath);
     }
 
+    const resolvedBaseline = baselinePath && resolve(baselinePath);
+    if (resolvedBaseline && !existsSync(resolvedBaseline)) {
+      throw new Error(`Baseline file not found: ${baselinePath}`);
+    }
+    if ((failOnRegression !== undefined || thresholdsPath) && !resolvedBaseline) {
+      throw new Error("Regression thresholds require a --baseline to compare to");
+    }
+    if (failOnRegression !== undefined && !(failOnRegression >= 0)) {
+      throw new Error(`Invalid regression threshold: ${failOnRegression}`);
+    }
+
+    // Per-test thresholds in percent, keyed by test name
+    let testThresholds: Record<string, number> = {};
+    if (thresholdsPath) {
+      const resolvedThresholds = resolve(thresholdsPath);
+      if (!existsSync(resolvedThresholds)) {
+        throw new Error(`Thresholds file not found: ${thresholdsPath}`);
+      }
+      testThresholds = JSON.parse(readFileSync(resolvedThresholds, "utf8"));
+      for (const [name, threshold] of Object.entries(testThresholds)) {
+        if (typeof threshold !== "number" || !(threshold >= 0)) {
+          throw new Error(`Invalid regression threshold for ${name}: ${threshold}`);
+        }
+      }
+    }
+
     // Create benchmark suite
     const bench = benchmark(customName);
 
@@ -120,30 +310,49 @@ export default command({
         // Load the module (with automatic TypeScript support)
         const moduleExports = await loadModule(filePath);
 
+        // Register setup and teardown hooks, isolated tests call them on their own
+        if (isolation === "none") {
+          if (typeof moduleExports.setup === "function") {
+            bench.beforeAll(moduleExports.setup as Hook);
+          }
+          if (typeof moduleExports.teardown === "function") {
+            bench.afterAll(moduleExports.teardown as Hook);
+          }
+        }
+
         // Handle different export patterns
         if (typeof moduleExports.default === "function") {
-          bench.test(fileName, moduleExports.default);
+          bench.test(fileName, moduleExports.default, {
+            source: { module: filePath, export: "default" },
+          });
           continue;
         }
         if (typeof moduleExports.benchmark === "function") {
-          bench.test(fileName, moduleExports.benchmark);
+          bench.test(fileName, moduleExports.benchmark, {
+            source: { module: filePath, export: "benchmark" },
+          });
           continue;
         }
         if (typeof moduleExports.test === "function") {
-          bench.test(fileName, moduleExports.test);
+          bench.test(fileName, moduleExports.test, {
+            source: { module: filePath, export: "test" },
+          });
           continue;
         }
         if (typeof moduleExports === "function") {
-          bench.test(fileName, moduleExports);
+          bench.test(fileName, moduleExports, { source: { module: filePath } });
           continue;
         }
 
         // Look for any exported function
         let didFindFunction = false;
         for (const [key, value] of Object.entries(moduleExports)) {
+          if (HOOK_EXPORTS.includes(key)) continue;
           if (typeof value === "function") {
             didFindFunction = true;
-            bench.test(`${fileName}${Formatter.dim("#")}${key}`, value as TestFunction);
+            bench.test(`${fileName}${Formatter.dim("#")}${key}`, value as TestFunction, {
+              source: { module: filePath, export: key },
+            });
           }
         }
 
@@ -160,24 +369,98 @@ export default command({
       throw new Error("No test functions found to benchmark");
     }
 
-    // Preheat
-    if (preheat) {
+    // Preheat a fixed number of times, isolated tests and automatic warmups
+    // are handled by the run
+    if (preheat && preheat !== "auto" && isolation === "none") {
       await bench.preheat(preheat, {
         verbosity,
         gcStrategy,
         gcInterval,
+        signal,
+        timeout,
+        testTimeout,
       });
     }
 
+    if (signal.aborted) {
+      process.exitCode = 130;
+      return;
+    }
+
     // Run benchmark
     await bench.run(runs, {
+      time,
+      targetRme,
+      minSamples,
+      maxSamples,
       coolDown,
       verbosity,
       cycles,
+      confidence,
+      batchSize,
+      subtractOverhead,
       gcStrategy,
       gcInterval,
+      isolation,
+      schedule,
+      seed,
+      ...((isolation !== "none" || preheat === "auto") && { preheat }),
+      preheatTime,
+      timeout,
+      testTimeout,
+      memory,
+      cpu,
+      eventLoopDelay,
+      concurrency,
+      bail,
+      signal,
     });
 
+    // Exit like an interrupted process, or with an error if any test failed or
+    // the run stopped before the tests could finish
+    if (signal.aborted) {
+      process.exitCode = 130;
+    } else if (bench.results.some(({ status }) => !status || status === "failed")) {
+      process.exitCode = 1;
+    }
+
+    if (resolvedBaseline) {
+      // Match the thresholds to the test names without their formatting
+      const thresholds: Record<string, number> = {};
+      const unknownNames = new Set(Object.keys(testThresholds));
+      for (const { name } of bench.tests) {
+        const plainName = stripVTControlCharacters(name);
+        const threshold = testThresholds[plainName];
+        unknownNames.delete(plainName);
+        if (threshold !== undefined) thresholds[name] = threshold / 100;
+      }
+      for (const name of unknownNames) {
+        Logger.warn(`No test named ${Formatter.bold(name)} for its regression threshold`);
+      }
+
+      const comparisons = bench.compareTo(resolvedBaseline, {
+        confidence,
+        threshold: failOnRegression === undefined ? undefined : failOnRegression / 100,
+        thresholds,
+        verbosity,
+      });
+
+      const regressions = comparisons.filter(({ regression }) => regression);
+      if (regressions.length) {
+        Logger.error(
+          regressions.length > 1
+            ? `${regressions.length} tests regressed past their thresholds:`
+            : "1 test regressed past its threshold:",
+        );
+        for (const { name, change, threshold } of regressions) {
+          Logger.error(
+            `  ${Formatter.bold(name)}: ${formatPercent(change)} slower (threshold: ${formatPercent(threshold!)})`,
+          );
+        }
+        process.exitCode ||= REGRESSION_EXIT_CODE;
+      }
+    }
+
     // Export results if requested
     if (shouldExport) {
       const timestamp = Date.now();
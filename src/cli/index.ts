@@ -20,6 +20,10 @@ async function restartWithExposeGC(): Promise<void> {
       ...process.argv.slice(2), // CLI arguments
     ];
 
+    // Let the child handle Ctrl+C so it can show partial results
+    const ignoreSigint = () => {};
+    process.on("SIGINT", ignoreSigint);
+
     const child = spawn(process.execPath, args, {
       stdio: "inherit",
       env: {
@@ -30,6 +34,8 @@ async function restartWithExposeGC(): Promise<void> {
 
     child.on("exit", (code, signal) => {
       if (signal) {
+        // Die by the same signal, which the listener would otherwise swallow
+        process.off("SIGINT", ignoreSigint);
         process.kill(process.pid, signal);
       } else {
         process.exit(code || 0);
@@ -59,7 +65,7 @@ async function main() {
     defaultCommand: "run",
   })
     .then(() => {
-      process.exit(0);
+      process.exit();
     })
     .catch((error) => {
       Logger.error(error);
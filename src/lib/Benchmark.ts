@@ -1,390 +1,2694 @@
 import { writeFileSync } from "node:fs";
-import { getTCritical95 } from "#src/lib/utils/getTCritical95";
+import { type IntervalHistogram, monitorEventLoopDelay } from "node:perf_hooks";
+import { createRandom, createSeed } from "#src/lib/utils/createRandom";
+import { createScheduler, type Schedule } from "#src/lib/utils/createScheduler";
+import { findSteadyState } from "#src/lib/utils/findSteadyState";
+import { formatPercent } from "#src/lib/utils/formatPercent";
+import {
+  type ConfidenceInterval,
+  getBootstrapIntervals,
+} from "#src/lib/utils/getBootstrapIntervals";
+import { type Environment, getEnvironment } from "#src/lib/utils/getEnvironment";
+import { getGCStats, type SampleSpans } from "#src/lib/utils/getGCStats";
+import { getOutlierFences, type OutlierMethod } from "#src/lib/utils/getOutlierFences";
+import { getPercentile } from "#src/lib/utils/getPercentile";
+import {
+  getRatioMargin,
+  getRelativeMeanError,
+  type MeanError,
+} from "#src/lib/utils/getRatioMargin";
+import { getScalingExponent } from "#src/lib/utils/getScalingExponent";
+import { getTCritical } from "#src/lib/utils/getTCritical";
 import { Formatter, Logger } from "#src/lib/utils/Logger";
+import { loadResults, RESULTS_SCHEMA_VERSION } from "#src/lib/utils/loadResults";
+import { mannWhitneyUTest } from "#src/lib/utils/mannWhitneyUTest";
+import { type CpuSample, getCpuUsage, measureCpu } from "#src/lib/utils/measureCpu";
+import { type GCEvent, type GCKind, observeGC } from "#src/lib/utils/observeGC";
+import { RunningStats } from "#src/lib/utils/RunningStats";
+import { type ConcurrentRun, runConcurrently } from "#src/lib/utils/runConcurrently";
+import { type Isolation, runIsolated } from "#src/lib/utils/runIsolated";
+import { welchTTest } from "#src/lib/utils/welchTTest";
 
-export type TestFunction<V = any, R = any> = (value: V) => R | Promise<R>;
+export type TestFunction<V = any, R = any> = (value: V, params: Params) => R | Promise<R>;
 
 export type TestFunctions<N extends string = string, V = any, R = any> = {
   name: N;
   fn: TestFunction<V, R>;
+  hooks?: TestHooks;
+  /**
+   * Where the test function can be loaded from to run it in isolation.
+   */
+  source?: TestSource;
 }[];
 
-export interface TestResult<N extends string = string> {
-  name: N;
-  samples: number[];
-  totalTime: number;
-  meanTime?: number;
-  opsPerSecond?: number;
-  stdDeviation?: number;
-  marginOfError?: number;
-}
+/**
+ * A combination of parameter values from a {@linkcode ParamMatrix}.
+ */
+export type Params = Record<string, any>;
 
-type TestQueue<N extends string = string, V = any, R = any> = {
-  runs: number;
-  fn: TestFunction<V, R>;
-  result: TestResult<N>;
-}[];
+/**
+ * The values to run the tests with for each parameter. Tests are run once for
+ * every combination of values.
+ */
+export type ParamMatrix = Record<string, readonly any[]>;
 
-interface ValueOption<V> {
+/**
+ * A setup or teardown function. Hooks run outside of the timed region, so
+ * their cost doesn't count towards a test's results. They're passed the
+ * current parameter combination.
+ */
+export type Hook = (params: Params) => unknown | Promise<unknown>;
+
+/**
+ * The module export a test function can be loaded from.
+ */
+export interface TestSource {
+  /**
+   * The path of the module.
+   */
+  module: string;
   /**
-   * The value to pass to the test function.
+   * The name of the export.
+   *
+   * @default 'default'
    */
-  value: V;
+  export?: string;
 }
 
-export type RunOptions<V = any, R = any> = {
+/**
+ * Setup and teardown hooks for a single test.
+ */
+export interface TestHooks {
   /**
-   * A name for the run.
+   * Called once before the test's first sample in each run.
    */
-  name?: string;
-
+  beforeAll?: Hook;
   /**
-   * Number of test cycles to run. Each cycle will run the specified
-   * number of iterations. Higher cycle counts provide more statistical accuracy.
-   *
-   *  @default 1
+   * Called once after the test's last sample in each run, even if the run
+   * failed.
    */
-  cycles?: number;
+  afterAll?: Hook;
+  /**
+   * Called before each sample of the test. When batching, a sample includes
+   * every call in the batch.
+   */
+  beforeEach?: Hook;
+  /**
+   * Called after each sample of the test.
+   */
+  afterEach?: Hook;
+}
 
+/**
+ * Options for a single test.
+ */
+export interface TestOptions extends TestHooks {
   /**
-   * The number of milliseconds to wait between runs.
+   * Where the test function can be loaded from, required to run the test in
+   * isolation. Isolated tests call the module's `setup` and `teardown`
+   * exports instead of these hooks.
    */
-  coolDown?: number;
+  source?: TestSource;
+}
+
+/**
+ * How a test's run ended.
+ * - `'completed'` - The test finished all of its samples
+ * - `'timed-out'` - A sample or the whole test ran longer than its timeout
+ * - `'aborted'` - The run was aborted before the test finished
+ * - `'failed'` - The test, one of its hooks or its validation threw an error
+ */
+export type TestStatus = "completed" | "timed-out" | "aborted" | "failed";
 
+/**
+ * The samples a test was warmed up with when running with `preheat: 'auto'`.
+ */
+export interface Warmup {
   /**
-   * The level of logging verbosity.
-   * - `0` - No output
-   * - `1` - Basic output (default)
-   * - `2` - Detailed output
-   *
-   *  @default 1
+   * The time of each warmup sample, in milliseconds.
    */
-  verbosity?: 0 | 1 | 2;
+  samples: number[];
+  /**
+   * The index of the first warmup sample in the steady state, after which the
+   * rolling mean and standard deviation stopped changing. Undefined if the
+   * times didn't stabilize before the warmup time ran out.
+   */
+  steadyState?: number;
+}
 
+/**
+ * How much memory a test used, in bytes per call.
+ */
+export interface MemoryUsage {
   /**
-   * Garbage collection strategy.
-   * - `'never'` - Never force GC (fastest, but may have memory pressure effects)
-   * - `'per-cycle'` - Force GC once per cycle (good balance)
-   * - `'per-test'` - Force GC when each test completes all iterations
-   * - `'periodic'` - Force GC every N iterations (use with gcInterval)
-   *
-   * @default 'periodic'
+   * The mean change in heap used per call, which can be negative when GC ran
+   * during samples.
    */
-  gcStrategy?: "never" | "per-cycle" | "per-test" | "periodic";
+  heapUsedDelta: number;
+  /**
+   * The mean bytes allocated per call, from the samples the heap didn't shrink
+   * in. Undefined if GC ran during every sample.
+   */
+  allocatedPerOp?: number;
+  /**
+   * The bytes per call still on the heap after a full GC, measured with an
+   * extra batch of calls after sampling. Only measured when GC is exposed with
+   * `--expose-gc`.
+   */
+  retainedPerOp?: number;
+}
 
+/**
+ * The CPU time and resources the process used while a test's samples were
+ * running. CPU times are in milliseconds per call.
+ */
+export interface CpuUsage {
   /**
-   * For 'periodic' GC strategy, how many iterations between GC calls.
-   *
-   * @default 1000
+   * The mean CPU time spent in user code per call.
    */
-  gcInterval?: number;
+  userTime: number;
+  /**
+   * The mean CPU time spent in the system per call.
+   */
+  systemTime: number;
+  /**
+   * The mean total CPU time per call.
+   */
+  meanTime: number;
+  /**
+   * The median total CPU time per call over the samples.
+   */
+  medianTime: number;
+  /**
+   * The standard deviation of the total CPU time per call over the samples.
+   */
+  stdDeviation: number;
+  /**
+   * The total CPU time divided by the total wall time. Well below 1 when the
+   * test spends its time waiting, e.g. on I/O or to be scheduled, and can be
+   * above 1 when other threads are busy too.
+   */
+  cpuWallRatio: number;
+  /**
+   * The number of times the process gave up the CPU, e.g. to wait on I/O.
+   */
+  voluntaryContextSwitches: number;
+  /**
+   * The number of times the process was descheduled to run something else.
+   */
+  involuntaryContextSwitches: number;
+  /**
+   * The number of page faults served without I/O.
+   */
+  minorPageFaults: number;
+  /**
+   * The number of page faults that needed I/O.
+   */
+  majorPageFaults: number;
+}
 
+/**
+ * How a test performed with calls kept in flight after sampling. Times are in
+ * milliseconds.
+ */
+export interface Throughput {
   /**
-   * A function to validate the result. Return false or an error message to fail the test.
+   * The most calls that were in flight at once.
    */
-  validate?: (result: R, value: V) => boolean | string;
-} & (undefined extends V ? Partial<ValueOption<V>> : ValueOption<V>);
+  concurrency: number;
+  /**
+   * The number of calls that settled.
+   */
+  calls: number;
+  /**
+   * The wall time to make all of the calls.
+   */
+  totalTime: number;
+  /**
+   * The number of calls that settled per second.
+   */
+  opsPerSecond: number;
+  /**
+   * The mean time from a call starting to settling.
+   */
+  meanLatency: number;
+  /**
+   * The median time from a call starting to settling.
+   */
+  medianLatency: number;
+  /**
+   * Tail percentiles of the time from a call starting to settling.
+   */
+  latencyPercentiles: Percentiles;
+}
 
-export type RunArgs<V = any, R = any> = undefined extends V
-  ? [number, RunOptions<V, R>?]
-  : [number, RunOptions<V, R>];
+/**
+ * The event loop delays recorded while a test was running, in milliseconds.
+ */
+export interface EventLoopDelay {
+  /**
+   * The number of delays recorded.
+   */
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  stdDeviation: number;
+  median: number;
+  percentiles: Percentiles;
+}
 
-export type PreheatOptions<V = any> = Pick<
-  RunOptions<V>,
-  "value" | "verbosity" | "gcStrategy" | "gcInterval"
->;
+/**
+ * The garbage collections that started while a test's samples were running.
+ */
+export interface GCStats {
+  /**
+   * The number of garbage collections.
+   */
+  count: number;
+  /**
+   * The number of garbage collections of each kind.
+   */
+  kinds: Record<GCKind, number>;
+  /**
+   * The total time paused for garbage collection, in milliseconds.
+   */
+  pauseTime: number;
+}
 
-export type PreheatArgs<V = any> = undefined extends V
-  ? [number, PreheatOptions<V>?]
-  : [number, PreheatOptions<V>];
+/**
+ * Tail percentiles of a test's sample times, in milliseconds.
+ */
+export interface Percentiles {
+  p75: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  p999: number;
+}
 
-export class Benchmark<TTestName extends string & {} = string & {}, TValue = any, TReturn = any> {
-  name: string;
+/**
+ * The method used to estimate confidence intervals.
+ * - `'parametric'` - Student's t-distribution, which assumes the sample mean
+ *   is normally distributed
+ * - `'bootstrap'` - Percentile bootstrap, which resamples the samples and
+ *   makes no assumptions about their distribution
+ */
+export type Estimator = "parametric" | "bootstrap";
 
+/**
+ * The number of outliers detected in a test's samples.
+ */
+export interface OutlierSummary {
+  method: OutlierMethod;
+  mild: number;
+  severe: number;
   /**
-   * The results of the tests.
+   * Whether the outliers were left out of the mean, standard deviation and
+   * margin of error.
    */
-  results: TestResult<TTestName>[] = [];
+  excluded: boolean;
+}
 
-  #tests: TestFunctions = [];
+/**
+ * The significance test used to compare tests.
+ * - `'welch'` - Welch's t-test, which compares means
+ * - `'mann-whitney'` - The Mann-Whitney U test, which compares distributions
+ *   without assuming they're normal
+ */
+export type SignificanceTest = "welch" | "mann-whitney";
 
-  constructor(name = "Benchmark") {
-    this.name = name;
-  }
+/**
+ * The result of comparing a test to the fastest test in its run.
+ */
+export interface Comparison {
+  method: SignificanceTest;
+  /**
+   * The name of the fastest test.
+   */
+  baseline: string;
+  /**
+   * The probability of seeing a difference at least this large if the tests
+   * were actually the same speed.
+   */
+  pValue: number;
+  /**
+   * The standardized size of the difference, positive when this test is
+   * slower. Cohen's d for `'welch'` and the rank-biserial correlation for
+   * `'mann-whitney'`.
+   */
+  effectSize: number;
+  /**
+   * Whether the difference is significant at `1 - confidence`.
+   */
+  significant: boolean;
+  /**
+   * The group of statistically indistinguishable tests this test belongs to,
+   * starting at `1` for the group containing the fastest test.
+   */
+  group: number;
+}
 
+/**
+ * A test's speed relative to a baseline test.
+ */
+export interface RelativePerformance {
   /**
-   * The tests to be run.
+   * The name of the baseline test.
    */
-  get tests() {
-    return this.#tests as TestFunctions<TTestName, TValue, TReturn>;
-  }
+  baseline: string;
+  /**
+   * How many times faster this test is than the baseline
+   * (`baseline.meanTime / meanTime`). Less than `1` when it's slower.
+   */
+  speedup: number;
+  /**
+   * The margin of error of the speedup at the run's confidence level,
+   * propagated from both tests' standard errors.
+   */
+  marginOfError: number;
+}
+
+/**
+ * How a test's speed changed from a baseline run.
+ * - `'faster'` - Significantly faster than the baseline
+ * - `'slower'` - Significantly slower than the baseline
+ * - `'unchanged'` - Not significantly different from the baseline
+ */
+export type Verdict = "faster" | "slower" | "unchanged";
 
+/**
+ * The result of comparing a test to the same test in a baseline run.
+ */
+export interface BaselineComparison {
+  name: string;
+  params?: Params;
   /**
-   * Add a test to be run
+   * The mean time of the test in the baseline run, in milliseconds.
    */
-  test<N extends string, V extends TValue, R extends TReturn>(
-    name: N,
-    fn: TestFunction<V, R>,
-  ): Benchmark<TTestName | N, V, R>;
-  test<V extends TValue, R extends TReturn>(
-    fn: TestFunction<V, R>,
-  ): Benchmark<TTestName | `Test ${number}`, V, R>;
-  test<N extends string, V extends TValue, R extends TReturn>(
-    name: N | TestFunction<V, R>,
-    fn = name as TestFunction<V, R>,
-  ): Benchmark<TTestName | N, V, R> {
-    if (typeof name === "function") {
-      name = `Test ${this.tests.length + 1}` as N;
-    }
-    this.#tests.push({ name, fn });
-    return this as unknown as Benchmark<N, V, R>;
-  }
+  baselineTime: number;
+  /**
+   * The mean time of the test in the last run, in milliseconds.
+   */
+  meanTime: number;
+  /**
+   * The relative change in mean time (`meanTime / baselineTime - 1`).
+   * Negative when the test got faster.
+   */
+  change: number;
+  /**
+   * The margin of error of the change at the comparison's confidence level,
+   * propagated from both runs' standard errors.
+   */
+  marginOfError: number;
+  /**
+   * The p-value of the significance test, if both runs have enough samples to
+   * run one.
+   */
+  pValue?: number;
+  verdict: Verdict;
+  /**
+   * The confidence interval for the mean time in the last run, if it has
+   * enough samples to estimate one.
+   */
+  meanInterval?: ConfidenceInterval;
+  /**
+   * The confidence interval for the mean time in the baseline run, if it has
+   * enough samples to estimate one.
+   */
+  baselineInterval?: ConfidenceInterval;
+  /**
+   * The largest relative slowdown allowed for the test. Only set when
+   * comparing with a `threshold` for the test.
+   */
+  threshold?: number;
+  /**
+   * Whether the test slowed down by more than its threshold, with confidence
+   * intervals that don't overlap. Only set when comparing with a `threshold`
+   * for the test.
+   */
+  regression?: boolean;
+}
 
+export interface TestResult<N extends string = string> {
+  name: N;
   /**
-   * Preheat the runner by running the tests to warm up the JIT compiler.
-   * @param iterations - The number of times to run each test.
-   * @param options - Options for the preheat.
+   * The parameter combination the test was run with, if the benchmark has
+   * parameters.
    */
-  preheat(
-    ...[iterations, { value, verbosity = 1, gcStrategy, gcInterval } = {}]: PreheatArgs<TValue>
-  ): Promise<this> {
-    if (verbosity > 0) {
-      Logger.pending(
-        `${this.name}: Preheating ${this.tests.length} tests ${iterations} times each...`,
-      );
+  params?: Params;
+  /**
+   * Whether the test finished all of its samples, or why it stopped early.
+   * Tests that stop early keep the samples they recorded.
+   */
+  status?: TestStatus;
+  /**
+   * The message of the error that stopped the test, if it failed.
+   */
+  error?: string;
+  samples: number[];
+  totalTime: number;
+  meanTime?: number;
+  opsPerSecond?: number;
+  stdDeviation?: number;
+  marginOfError?: number;
+  /**
+   * The confidence level of the margin of error.
+   */
+  confidence?: number;
+  /**
+   * The method used to estimate the confidence intervals.
+   */
+  estimator?: Estimator;
+  /**
+   * The confidence interval for the mean time.
+   */
+  meanInterval?: ConfidenceInterval;
+  /**
+   * The confidence interval for the median time. Only estimated by the
+   * `'bootstrap'` estimator.
+   */
+  medianInterval?: ConfidenceInterval;
+  minTime?: number;
+  maxTime?: number;
+  medianTime?: number;
+  percentiles?: Percentiles;
+  /**
+   * The spread of the middle 50% of samples (p75 - p25).
+   */
+  interquartileRange?: number;
+  /**
+   * The standard deviation relative to the mean (`stdDeviation / meanTime`).
+   */
+  coefficientOfVariation?: number;
+  outliers?: OutlierSummary;
+  /**
+   * The number of calls timed together for each sample. Each sample is the
+   * time per call.
+   */
+  batchSize?: number;
+  /**
+   * The calibrated overhead subtracted from each sample, in milliseconds.
+   */
+  overhead?: number;
+  /**
+   * Whether the test reached the target relative margin of error. Only set
+   * when running with a `targetRme`.
+   */
+  converged?: boolean;
+  /**
+   * The warmup samples and where they reached a steady state. Only set when
+   * running with `preheat: 'auto'`.
+   */
+  warmup?: Warmup;
+  /**
+   * The test's heap usage and allocations. Only set when running with
+   * `memory: true`.
+   */
+  memory?: MemoryUsage;
+  /**
+   * The garbage collections that ran during the test's samples. GCs forced by
+   * the `gcStrategy` between samples aren't counted.
+   */
+  gc?: GCStats;
+  /**
+   * The test's CPU time and resource usage. Only set when running with
+   * `cpu: true`.
+   */
+  cpu?: CpuUsage;
+  /**
+   * The test's throughput and latencies when run under load. Only set when
+   * running with a `concurrency` above 1 or `eventLoopDelay: true`.
+   */
+  throughput?: Throughput;
+  /**
+   * The event loop delays recorded while the test ran. Only set when running
+   * with `eventLoopDelay: true`.
+   */
+  eventLoopDelay?: EventLoopDelay;
+  /**
+   * Problems detected with the test's measurements.
+   */
+  warnings?: string[];
+  comparison?: Comparison;
+  relative?: RelativePerformance;
+}
+
+/**
+ * Measurements of the timing harness itself, used to correct and sanity check
+ * test timings.
+ */
+export interface Calibration {
+  /**
+   * The smallest measurable difference between two `performance.now()` calls,
+   * in milliseconds.
+   */
+  timerResolution: number;
+  /**
+   * The median time measured for an empty test function, in milliseconds. This
+   * is the fixed cost of timing and awaiting each call.
+   */
+  overhead: number;
+  /**
+   * The median change in heap used measured around an empty test function, in
+   * bytes. This is the memory the harness allocates to measure each sample.
+   */
+  heapOverhead: number;
+}
+
+type TestQueue<N extends string = string, V = any, R = any> = {
+  index: number;
+  runs: number;
+  elapsed: number;
+  stats: RunningStats;
+  fn: TestFunction<V, R>;
+  batchSize: number;
+  beforeEach: Hook[];
+  afterEach: Hook[];
+  result: TestResult<N>;
+}[];
+
+/**
+ * Information about the call a value is being created for.
+ */
+export interface ValueContext {
+  /**
+   * The name of the test being called.
+   */
+  test: string;
+  /**
+   * The index of the test's sample being taken. Probes for an automatic batch
+   * size use index `0`.
+   */
+  sample: number;
+  /**
+   * The index of the call within the sample's batch.
+   */
+  call: number;
+  /**
+   * The current parameter combination, or an empty object if the benchmark
+   * has no parameters.
+   */
+  params: Params;
+}
+
+/**
+ * A function that creates a fresh value to pass to a test function. Factories
+ * are called outside of the timed region.
+ */
+export type ValueFactory<V = any> = (context: ValueContext) => V;
+
+/**
+ * How values are copied before being passed to a test function.
+ * - `false` - Pass values as they are
+ * - `'structured'` - Copy objects with `structuredClone`
+ * - A function that returns a copy of the value
+ */
+export type ClonePolicy<V = any> = false | "structured" | ((value: V) => V);
+
+interface ValueOption<V> {
+  /**
+   * The value to pass to the test function, or a factory that creates one for
+   * each call. To pass a function as the value, return it from a factory.
+   */
+  value: V | ValueFactory<V>;
+}
+
+export type RunOptions<V = any, R = any> = {
+  /**
+   * A name for the run.
+   */
+  name?: string;
+
+  /**
+   * Number of test cycles to run. Each cycle will run the specified
+   * number of iterations. Higher cycle counts provide more statistical accuracy.
+   *
+   *  @default 1
+   */
+  cycles?: number;
+
+  /**
+   * The number of milliseconds to wait between runs.
+   */
+  coolDown?: number;
+
+  /**
+   * A target relative margin of error (`marginOfError / meanTime`), e.g.
+   * `0.01` for ±1%. When set, each test keeps running until it reaches the
+   * target or uses its `time` budget, which then acts as a cap.
+   */
+  targetRme?: number;
+
+  /**
+   * A time budget for each test in each cycle, in milliseconds. When set, tests
+   * keep running until they've each used their budget instead of running a
+   * fixed number of iterations. With a `targetRme`, it's the maximum time to
+   * spend trying to reach the target, defaulting to 5 seconds.
+   */
+  time?: number;
+
+  /**
+   * For time budgets, the minimum number of samples to take from each test in
+   * each cycle, even if it goes over budget.
+   *
+   * @default 5
+   */
+  minSamples?: number;
+
+  /**
+   * For time budgets, the maximum number of samples to take from each test in
+   * each cycle, even if it's under budget.
+   *
+   * @default Infinity
+   */
+  maxSamples?: number;
+
+  /**
+   * The level of logging verbosity.
+   * - `0` - No output
+   * - `1` - Basic output (default)
+   * - `2` - Detailed output
+   *
+   *  @default 1
+   */
+  verbosity?: 0 | 1 | 2;
+
+  /**
+   * Garbage collection strategy.
+   * - `'never'` - Never force GC (fastest, but may have memory pressure effects)
+   * - `'per-cycle'` - Force GC once per cycle (good balance)
+   * - `'per-test'` - Force GC when each test completes all iterations
+   * - `'periodic'` - Force GC every N iterations (use with gcInterval)
+   *
+   * @default 'periodic'
+   */
+  gcStrategy?: "never" | "per-cycle" | "per-test" | "periodic";
+
+  /**
+   * For 'periodic' GC strategy, how many iterations between GC calls.
+   *
+   * @default 1000
+   */
+  gcInterval?: number;
+
+  /**
+   * The confidence level for the margin of error, between `0` and `1`.
+   *
+   * @default 0.95
+   */
+  confidence?: number;
+
+  /**
+   * The method used to estimate confidence intervals.
+   * - `'parametric'` - Student's t-distribution, which assumes the sample mean
+   *   is normally distributed
+   * - `'bootstrap'` - Percentile bootstrap, which resamples the samples and
+   *   makes no assumptions about their distribution. Slower, but more accurate
+   *   for skewed timings.
+   *
+   * @default 'parametric'
+   */
+  estimator?: Estimator;
+
+  /**
+   * For the 'bootstrap' estimator, how many resamples to draw.
+   *
+   * @default 1000
+   */
+  bootstrapResamples?: number;
+
+  /**
+   * A seed for the random number generator, to make randomized parts of the
+   * run reproducible. Defaults to a random seed, which is saved to
+   * {@linkcode Benchmark.seed}.
+   */
+  seed?: number;
+
+  /**
+   * The order to run the tests' samples in. The random strategies use the
+   * `seed`, so runs with the same seed run in the same order.
+   *
+   * @default 'random'
+   */
+  schedule?: Schedule;
+
+  /**
+   * How to detect outliers in the samples, such as GC pauses or JIT deopts.
+   * - `'none'` - Don't detect outliers
+   * - `'tukey'` - Tukey's fences, 1.5 (mild) and 3 (severe) IQRs outside the
+   *   quartiles
+   * - `'mad'` - Modified z-scores above 3.5 (mild) and 7 (severe), based on
+   *   the median absolute deviation
+   *
+   * @default 'tukey'
+   */
+  outliers?: "none" | OutlierMethod;
+
+  /**
+   * Leave detected outliers out of the mean, standard deviation and margin of
+   * error. The raw samples and percentiles still include them.
+   *
+   * @default false
+   */
+  excludeOutliers?: boolean;
+
+  /**
+   * The significance test used to compare each test to the fastest one and
+   * group tests that are statistically indistinguishable. Differences are
+   * significant at `1 - confidence`.
+   * - `'none'` - Don't compare tests
+   * - `'welch'` - Welch's t-test, which compares means
+   * - `'mann-whitney'` - The Mann-Whitney U test, which compares distributions
+   *   without assuming they're normal
+   *
+   * @default 'welch'
+   */
+  significanceTest?: "none" | SignificanceTest;
+
+  /**
+   * The number of back-to-back calls to time for each sample, which is then
+   * recorded as the time per call. Batching amortizes the timing overhead for
+   * very fast functions.
+   * - A number - Use the same batch size for every test
+   * - `'auto'` - Choose a batch size for each test that makes the timing
+   *   overhead and timer resolution negligible, based on the calibration
+   *
+   * @default 1
+   */
+  batchSize?: number | "auto";
+
+  /**
+   * Subtract the calibrated timing overhead from each sample. The benchmark is
+   * calibrated automatically on its first run.
+   *
+   * @default false
+   */
+  subtractOverhead?: boolean;
+
+  /**
+   * The name of the test to compare the others' speed to. Defaults to the
+   * fastest test.
+   */
+  baselineTest?: string;
+
+  /**
+   * Where to run the tests. Isolated tests run one at a time in a fresh V8
+   * isolate, so JIT feedback and heap state from one test can't affect the
+   * others. They must be added with a `source` module, and can't use value
+   * factories, custom clone functions, `validate` or `beforeEach`/`afterEach`
+   * hooks, which can't be sent to another thread.
+   * - `'none'` - Run in the current thread, interleaved with the other tests
+   * - `'worker'` - Run each test in a fresh `worker_threads` Worker
+   * - `'process'` - Run each test in a fresh forked Node.js process
+   *
+   * @default 'none'
+   */
+  isolation?: Isolation;
+
+  /**
+   * The number of times to run each test before taking samples, in batches of
+   * the size it's sampled with, to warm up the JIT compiler, or `'auto'` to run each test until the mean and standard
+   * deviation of its recent samples stabilize. Isolated tests are warmed up in
+   * their own thread or process.
+   *
+   * @default 0
+   */
+  preheat?: number | "auto";
+
+  /**
+   * With `preheat: 'auto'`, the most time to spend warming up each test, in
+   * milliseconds. Warmups also stop after 10,000 samples.
+   *
+   * @default 1000
+   */
+  preheatTime?: number;
+
+  /**
+   * Track each test's heap usage and allocations, measured outside of the
+   * timed region. Retained memory is only measured when GC is exposed with
+   * `--expose-gc`.
+   *
+   * @default false
+   */
+  memory?: boolean;
+
+  /**
+   * Track the CPU time and resources (context switches and page faults) the
+   * process uses during each test's samples, measured outside of the timed
+   * region.
+   *
+   * @default false
+   */
+  cpu?: boolean;
+
+  /**
+   * After sampling, call each test again as many times as it was sampled, with
+   * `concurrency` calls in flight, and record the event loop's delay with
+   * `perf_hooks.monitorEventLoopDelay` meanwhile to see how much the test holds
+   * up other work on the loop.
+   *
+   * @default false
+   */
+  eventLoopDelay?: boolean;
+
+  /**
+   * After sampling, call each test as many times as it was sampled while
+   * keeping this many calls in flight, starting a new call whenever one
+   * settles, to measure its throughput and latencies under load.
+   *
+   * @default 1
+   */
+  concurrency?: number;
+
+  /**
+   * Called with each sample as it's recorded, in milliseconds.
+   */
+  onSample?: (test: string, time: number) => void;
+
+  /**
+   * The longest a single sample can run, in milliseconds. Tests with a sample
+   * that runs longer are stopped and marked as timed out, while the other
+   * tests keep running. Samples that never settle are abandoned once they
+   * time out.
+   */
+  timeout?: number;
+
+  /**
+   * The longest each test can spend running samples over the whole run, in
+   * milliseconds. Tests that run longer are stopped and marked as timed out.
+   */
+  testTimeout?: number;
+
+  /**
+   * A signal to abort the run. Aborted runs stop at the next sample, or
+   * immediately if a sample is pending, and keep the results so far with
+   * unfinished tests marked as aborted.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * How to copy the value before each call so tests that mutate it don't
+   * affect each other.
+   *
+   * @default 'structured' for a value, false for a value factory
+   */
+  clone?: ClonePolicy<V>;
+
+  /**
+   * A function to validate the result. Return false or an error message to
+   * fail the test. It's passed the value given to the call that returned the
+   * result.
+   */
+  validate?: (result: R, value: V) => boolean | string;
+
+  /**
+   * Stop the whole run when a test fails, instead of marking the test as
+   * failed and running the rest.
+   *
+   * @default false
+   */
+  bail?: boolean;
+} & (undefined extends V ? Partial<ValueOption<V>> : ValueOption<V>);
+
+export type RunArgs<V = any, R = any> = undefined extends V
+  ? [number?, RunOptions<V, R>?]
+  : [number | undefined, RunOptions<V, R>];
+
+export type PreheatOptions<V = any> = Pick<
+  RunOptions<V>,
+  | "value"
+  | "clone"
+  | "verbosity"
+  | "gcStrategy"
+  | "gcInterval"
+  | "signal"
+  | "timeout"
+  | "testTimeout"
+>;
+
+export interface PrintOptions {
+  /**
+   * The level of detail to print.
+   * - `1` - The results table
+   * - `2` - The results table and the distribution of sample times
+   *
+   *  @default 1
+   */
+  verbosity?: 1 | 2;
+}
+
+export interface CompareOptions {
+  /**
+   * The confidence level for the margin of error and the significance test,
+   * between `0` and `1`. Changes are significant at `1 - confidence`.
+   *
+   * @default 0.95
+   */
+  confidence?: number;
+
+  /**
+   * The significance test used to decide whether each test changed.
+   *
+   * @default 'welch'
+   */
+  significanceTest?: SignificanceTest;
+
+  /**
+   * The largest relative slowdown allowed for each test (e.g. `0.1` for 10%).
+   * Tests that slow down by more, with confidence intervals that don't
+   * overlap, are marked as regressions.
+   */
+  threshold?: number;
+
+  /**
+   * Thresholds for individual tests by name, which take precedence over the
+   * `threshold`.
+   */
+  thresholds?: Record<string, number>;
+
+  /**
+   * The level of logging verbosity. `0` prints nothing.
+   *
+   * @default 1
+   */
+  verbosity?: 0 | 1 | 2;
+}
+
+/**
+ * The options of a run that are saved with its results. Values, functions and
+ * signals aren't saved.
+ */
+export type ExportedRunOptions = Omit<
+  RunOptions,
+  "value" | "clone" | "validate" | "onSample" | "signal"
+> & {
+  /**
+   * The number of times each test was run. Missing if it was infinite.
+   */
+  iterations?: number;
+};
+
+/**
+ * The data written by {@linkcode Benchmark.exportToJson}, in version
+ * {@linkcode RESULTS_SCHEMA_VERSION} of the schema. Load it with
+ * {@linkcode loadResults} to migrate results from older versions.
+ */
+export interface BenchmarkData {
+  /**
+   * The version of the schema the data is in.
+   */
+  schemaVersion: typeof RESULTS_SCHEMA_VERSION;
+  name: string;
+  /**
+   * When the results were exported, as an ISO 8601 date. Missing from results
+   * migrated from version 1.
+   */
+  timestamp?: string;
+  /**
+   * The seed used for random number generation in the run.
+   */
+  seed?: number;
+  /**
+   * The options of the run, if the results came from one.
+   */
+  options?: ExportedRunOptions;
+  /**
+   * The machine and runtime the results were measured on. Missing from
+   * results migrated from version 1.
+   */
+  environment?: Environment;
+  results: TestResult[];
+}
+
+/**
+ * The data written by {@linkcode Benchmark.exportToJson} before the schema
+ * was versioned.
+ */
+export interface BenchmarkDataV1 {
+  name: string;
+  seed?: number;
+  results: TestResult[];
+}
+
+export interface CalibrateOptions {
+  /**
+   * The number of times to time an empty test function.
+   *
+   * @default 10000
+   */
+  iterations?: number;
+
+  /**
+   * The level of logging verbosity.
+   *
+   * @default 1
+   */
+  verbosity?: 0 | 1 | 2;
+}
+
+export type PreheatArgs<V = any> = undefined extends V
+  ? [number, PreheatOptions<V>?]
+  : [number, PreheatOptions<V>];
+
+export class Benchmark<TTestName extends string & {} = string & {}, TValue = any, TReturn = any> {
+  name: string;
+
+  /**
+   * The results of the tests.
+   */
+  results: TestResult<TTestName>[] = [];
+
+  /**
+   * The seed used for random number generation in the last run.
+   */
+  seed?: number;
+
+  /**
+   * Measurements of the timing harness, set by
+   * {@linkcode Benchmark.calibrate}.
+   */
+  calibration?: Calibration;
+
+  #tests: TestFunctions = [];
+  #runOptions?: ExportedRunOptions;
+  #params?: ParamMatrix;
+  #hooks: Record<keyof TestHooks, Hook[]> = {
+    beforeAll: [],
+    afterAll: [],
+    beforeEach: [],
+    afterEach: [],
+  };
+
+  constructor(name = "Benchmark") {
+    this.name = name;
+  }
+
+  /**
+   * The tests to be run.
+   */
+  get tests() {
+    return this.#tests as TestFunctions<TTestName, TValue, TReturn>;
+  }
+
+  /**
+   * Add a test to be run
+   */
+  test<N extends string, V extends TValue, R extends TReturn>(
+    name: N,
+    fn: TestFunction<V, R>,
+    options?: TestOptions,
+  ): Benchmark<TTestName | N, V, R>;
+  test<V extends TValue, R extends TReturn>(
+    fn: TestFunction<V, R>,
+    options?: TestOptions,
+  ): Benchmark<TTestName | `Test ${number}`, V, R>;
+  test<N extends string, V extends TValue, R extends TReturn>(
+    name: N | TestFunction<V, R>,
+    fn?: TestFunction<V, R> | TestOptions,
+    options?: TestOptions,
+  ): Benchmark<TTestName | N, V, R> {
+    if (typeof name === "function") {
+      options = fn as TestOptions | undefined;
+      fn = name;
+      name = `Test ${this.tests.length + 1}` as N;
+    }
+    const { source, ...hooks } = options ?? {};
+    this.#tests.push({
+      name,
+      fn: fn as TestFunction<V, R>,
+      ...(Object.keys(hooks).length && { hooks }),
+      ...(source && { source }),
+    });
+    return this as unknown as Benchmark<N, V, R>;
+  }
+
+  /**
+   * Run the tests once for every combination of parameter values, e.g.
+   * `{ size: [10, 100, 1000] }`. Test functions, value factories and hooks are
+   * passed the current combination, and results are grouped by combination.
+   */
+  params(matrix: ParamMatrix): this {
+    for (const [key, values] of Object.entries(matrix)) {
+      if (!values.length) {
+        throw new Error(`Parameter ${key} must have at least one value`);
+      }
+    }
+    this.#params = matrix;
+    return this;
+  }
+
+  /**
+   * Add a hook to be called once before any tests in each run.
+   */
+  beforeAll(hook: Hook): this {
+    this.#hooks.beforeAll.push(hook);
+    return this;
+  }
+
+  /**
+   * Add a hook to be called once after all tests in each run, even if the run
+   * failed.
+   */
+  afterAll(hook: Hook): this {
+    this.#hooks.afterAll.push(hook);
+    return this;
+  }
+
+  /**
+   * Add a hook to be called before each sample of every test.
+   */
+  beforeEach(hook: Hook): this {
+    this.#hooks.beforeEach.push(hook);
+    return this;
+  }
+
+  /**
+   * Add a hook to be called after each sample of every test.
+   */
+  afterEach(hook: Hook): this {
+    this.#hooks.afterEach.push(hook);
+    return this;
+  }
+
+  /**
+   * Preheat the runner by running the tests to warm up the JIT compiler.
+   * @param iterations - The number of times to run each test.
+   * @param options - Options for the preheat.
+   */
+  preheat(
+    ...[
+      iterations,
+      { value, clone, verbosity = 1, gcStrategy, gcInterval, signal, timeout, testTimeout } = {},
+    ]: PreheatArgs<TValue>
+  ): Promise<this> {
+    if (verbosity > 0) {
+      Logger.pending(
+        `${this.name}: Preheating ${this.tests.length} tests ${iterations} times each...`,
+      );
+    }
+    return this.run(iterations, {
+      value: value as TValue,
+      clone,
+      verbosity: 0,
+      gcStrategy,
+      gcInterval,
+      signal,
+      timeout,
+      testTimeout,
+    });
+  }
+
+  /**
+   * Calibrate the timing harness by measuring the timer resolution and the
+   * overhead of timing an empty test function.
+   * @param options - Options for the calibration.
+   */
+  async calibrate({ iterations = 1e4, verbosity = 1 }: CalibrateOptions = {}): Promise<this> {
+    if (verbosity > 0) {
+      Logger.pending(`${this.name}: Calibrating timer...`);
+    }
+
+    // Find the smallest step the timer can take
+    let timerResolution = Infinity;
+    for (let i = 0; i < 1000; i++) {
+      const start = performance.now();
+      let end = performance.now();
+      while (end === start) end = performance.now();
+      timerResolution = Math.min(timerResolution, end - start);
+    }
+
+    // Time an empty function the same way tests are timed, warming it up first
+    const noop: TestFunction = () => {};
+    const samples: number[] = [];
+    for (let i = 0; i < iterations + 1000; i++) {
+      const { elapsed } = await timeCalls(noop, [undefined], {});
+      if (i >= 1000) samples.push(elapsed);
+    }
+    samples.sort((a, b) => a - b);
+
+    // Measure the heap used around an empty function the same way tests are
+    // measured with `memory: true`
+    const heapDeltas: number[] = [];
+    for (let i = 0; i < 600; i++) {
+      const heapBefore = process.memoryUsage().heapUsed;
+      await timeCalls(noop, [undefined], {});
+      const heapDelta = process.memoryUsage().heapUsed - heapBefore;
+      if (i >= 100) heapDeltas.push(heapDelta);
+    }
+    heapDeltas.sort((a, b) => a - b);
+
+    this.calibration = {
+      timerResolution,
+      overhead: getPercentile(samples, 0.5),
+      heapOverhead: getPercentile(heapDeltas, 0.5),
+    };
+
+    if (verbosity > 1) {
+      Logger.log(
+        `Timer resolution: ${formatTime(timerResolution)} ms, overhead: ${formatTime(
+          this.calibration.overhead,
+        )} ms`,
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Run the tests.
+   * @param iterations - The number of times to run each test.
+   * @param options - Options for the run.
+   */
+  async run(...[iterations = 1e5, options]: RunArgs<TValue, TReturn>): Promise<this> {
+    const combinations = this.#params ? getCombinations(this.#params) : [undefined];
+    const runOptions = {
+      ...options,
+      seed: options?.seed ?? createSeed(),
+    } as RunOptions<TValue, TReturn>;
+    const { value, clone, validate, onSample, signal, ...exportedOptions } = runOptions;
+    this.#runOptions = { iterations, ...exportedOptions };
+
+    const results: TestResult<TTestName>[] = [];
+    for (const params of combinations) {
+      const completed = await this.#runCombination(iterations, runOptions, params);
+      results.push(...this.results);
+      if (!completed || options?.signal?.aborted) break;
+    }
+    this.results = results;
+
+    if (combinations.length > 1 && (options?.verbosity ?? 1) > 0) {
+      this.#printScaling();
+    }
+
+    return this;
+  }
+
+  /**
+   * Run the tests with a single parameter combination.
+   * @returns Whether the run completed.
+   */
+  async #runCombination(
+    iterations: number,
+    options: RunOptions<TValue, TReturn>,
+    params?: Params,
+  ): Promise<boolean> {
+    const {
+      baselineTest,
+      batchSize = 1,
+      confidence = 0.95,
+      coolDown,
+      cycles = 1,
+      gcInterval = 1000,
+      gcStrategy = "periodic",
+      estimator = "parametric",
+      maxSamples = Infinity,
+      minSamples = 5,
+      name,
+      outliers = "tukey",
+      excludeOutliers = false,
+      significanceTest = "welch",
+      subtractOverhead = false,
+      targetRme,
+      time,
+      value,
+      clone,
+      validate,
+      isolation = "none",
+      schedule = "random",
+      preheat,
+      preheatTime = DEFAULT_PREHEAT_TIME,
+      memory = false,
+      cpu = false,
+      eventLoopDelay = false,
+      concurrency = 1,
+      timeout,
+      testTimeout,
+      signal,
+      verbosity = 1,
+    } = options;
+    const hasGC = !!globalThis.gc;
+    let iterationCount = 0;
+
+    if (!this.calibration) {
+      await this.calibrate({ verbosity: 0 });
+    }
+    const overhead = subtractOverhead ? this.calibration!.overhead : 0;
+
+    if (baselineTest && !this.tests.some(({ name }) => name === baselineTest)) {
+      throw new Error(`Baseline test not found: ${baselineTest}`);
+    }
+
+    if (targetRme !== undefined && !(targetRme > 0)) {
+      throw new Error(`Target relative margin of error must be positive; got ${targetRme}`);
+    }
+
+    if (time !== undefined && !(time > 0)) {
+      throw new Error(`Time budget must be positive; got ${time}`);
+    }
+
+    if (minSamples > maxSamples) {
+      throw new Error(
+        `Minimum samples (${minSamples}) must not be greater than maximum samples (${maxSamples})`,
+      );
+    }
+
+    if (batchSize !== "auto" && !(Number.isInteger(batchSize) && batchSize > 0)) {
+      throw new Error(`Batch size must be a positive integer or 'auto'; got ${batchSize}`);
+    }
+
+    if (!(confidence > 0 && confidence < 1)) {
+      throw new Error(`Confidence level must be between 0 and 1; got ${confidence}`);
+    }
+
+    if (timeout !== undefined && !(timeout > 0)) {
+      throw new Error(`Timeout must be positive; got ${timeout}`);
+    }
+
+    if (testTimeout !== undefined && !(testTimeout > 0)) {
+      throw new Error(`Test timeout must be positive; got ${testTimeout}`);
+    }
+
+    if (!(preheatTime > 0)) {
+      throw new Error(`Preheat time must be positive; got ${preheatTime}`);
+    }
+
+    if (!(Number.isInteger(concurrency) && concurrency > 0)) {
+      throw new Error(`Concurrency must be a positive integer; got ${concurrency}`);
+    }
+
+    if (isolation !== "none") {
+      const unsourced = this.tests.find(({ source }) => !source);
+      if (unsourced) {
+        throw new Error(`Test ${unsourced.name} must have a source module to run in isolation`);
+      }
+      if (typeof value === "function" || typeof clone === "function" || validate) {
+        throw new Error(
+          "Value factories, custom clone functions and validate can't be used with isolation",
+        );
+      }
+      if (
+        this.#hooks.beforeEach.length ||
+        this.#hooks.afterEach.length ||
+        this.tests.some(({ hooks }) => hooks?.beforeEach || hooks?.afterEach)
+      ) {
+        throw new Error("beforeEach and afterEach hooks can't be used with isolation");
+      }
+    }
+
+    // Show overall benchmark info
+    if (verbosity > 0) {
+      if (!hasGC && (gcStrategy !== "never" || memory)) {
+        Logger.warn("No GC hook! Consider running with --expose-gc");
+      }
+      Logger.group(
+        `${this.name}${name ? `${Formatter.dim(" - ")}${name}` : ""}${
+          params ? Formatter.dim(` [${formatParams(params)}]`) : ""
+        }${cycles > 1 ? Formatter.dim(` (${cycles} cycles)`) : ""}`,
+      ).pending(
+        `Running ${cycles} ${cycles > 1 ? "cycles" : "cycle"} of ${this.tests.length} ${
+          this.tests.length > 1 ? "tests" : "test"
+        } ${
+          targetRme !== undefined
+            ? `until ±${formatPercent(targetRme)} (max ${time ?? DEFAULT_ADAPTIVE_TIME} ms)`
+            : time !== undefined
+              ? `for ${time} ms`
+              : `${iterations} times`
+        } each...`,
+      );
+      if (verbosity > 1) {
+        Logger.log(
+          `GC Strategy: ${gcStrategy}${
+            gcStrategy === "periodic" ? ` (every ${gcInterval} iterations)` : ""
+          }`,
+        );
+        Logger.log(`Schedule: ${schedule} (seed: ${options.seed})`);
+        Logger.log(`Confidence level: ${formatPercent(confidence)} (${estimator})`);
+        Logger.log(
+          `Timer resolution: ${formatTime(this.calibration!.timerResolution)} ms, overhead: ${formatTime(
+            this.calibration!.overhead,
+          )} ms${subtractOverhead ? " (subtracted)" : ""}`,
+        );
+        if (outliers !== "none") {
+          Logger.log(`Outliers: ${outliers}${excludeOutliers ? " (excluded from stats)" : ""}`);
+        }
+        if (significanceTest !== "none" && this.tests.length > 1) {
+          Logger.log(`Significance test: ${significanceTest}`);
+        }
+        if (isolation !== "none") {
+          Logger.log(`Isolation: ${isolation}`);
+        }
+        if (value !== undefined) {
+          Logger.log("Value:", value);
+        }
+      }
+    }
+
+    this.seed = options.seed ?? createSeed();
+    const nextTest = createScheduler(schedule, this.tests.length, createRandom(this.seed));
+    const createValue = getValueFactory(value as TValue, clone);
+    const hookParams = params ?? {};
+
+    // Hooks around each sample, suite hooks wrapping test hooks
+    const eachHooks = this.tests.map(({ hooks }) => ({
+      beforeEach: compactHooks([...this.#hooks.beforeEach, hooks?.beforeEach]),
+      afterEach: compactHooks([hooks?.afterEach, ...this.#hooks.afterEach]),
+    }));
+
+    // Reset results
+    this.results = this.tests.map(({ name }) => ({
+      name,
+      ...(params && { params }),
+      samples: [],
+      totalTime: 0,
+      ...(subtractOverhead && { overhead }),
+    }));
+
+    let stopObservingGC: (() => Promise<GCEvent[]>) | undefined;
+    try {
+      await runHooks(this.#hooks.beforeAll, hookParams);
+      for (const [i, { hooks }] of this.tests.entries()) {
+        try {
+          await hooks?.beforeAll?.(hookParams);
+        } catch (error) {
+          this.#failTest(this.results[i]!, error, options);
+        }
+      }
+
+      if (isolation !== "none") {
+        await this.#runIsolated(isolation, iterations, options, params);
+      } else {
+        // Find a batch size for each test
+        const batchSizes = this.tests.map(() => (batchSize === "auto" ? 1 : batchSize));
+        for (const [i, { fn }] of this.tests.entries()) {
+          const result = this.results[i]!;
+          if (batchSize === "auto" && result.status !== "failed" && !signal?.aborted) {
+            try {
+              batchSizes[i] = await this.#findBatchSize(
+                result,
+                fn,
+                createValue,
+                hookParams,
+                eachHooks[i]!,
+                options,
+              );
+            } catch (error) {
+              this.#failTest(result, error, options);
+            }
+          }
+          if (batchSize !== 1) result.batchSize = batchSizes[i];
+        }
+
+        // Warm up each test a fixed number of times, or until its times
+        // stabilize
+        if (preheat && preheat !== "auto") {
+          for (const [i, { fn }] of this.tests.entries()) {
+            const result = this.results[i]!;
+            if (result.status || signal?.aborted) continue;
+            try {
+              await this.#preheatTest(
+                result,
+                fn,
+                preheat,
+                batchSizes[i]!,
+                createValue,
+                hookParams,
+                eachHooks[i]!,
+                options,
+              );
+            } catch (error) {
+              this.#failTest(result, error, options);
+            }
+          }
+        } else if (preheat === "auto") {
+          for (const [i, { fn }] of this.tests.entries()) {
+            const result = this.results[i]!;
+            if (result.status === "failed" || signal?.aborted) continue;
+            try {
+              await this.#warmUp(
+                result,
+                fn,
+                batchSizes[i]!,
+                createValue,
+                hookParams,
+                eachHooks[i]!,
+                {
+                  ...options,
+                  overhead,
+                },
+              );
+            } catch (error) {
+              this.#failTest(result, error, options);
+            }
+            if (verbosity > 0) this.#logWarmup(result, preheatTime);
+          }
+        }
+
+        // Keep running stats across cycles to check for convergence, and the
+        // time spent on each test for timeouts
+        const runningStats = this.tests.map(() => new RunningStats());
+        const timeSpent = this.tests.map(() => 0);
+        const heapDeltas = this.tests.map((): number[] => []);
+        const cpuSamples = this.tests.map((): CpuSample[] => []);
+
+        // Record when each sample ran to attribute GCs to tests
+        const sampleSpans: SampleSpans = [];
+        stopObservingGC = observeGC();
+
+        // Run multiple cycles
+        for (let cycle = 1; cycle <= cycles && !signal?.aborted; cycle++) {
+          if (verbosity > 0 && cycles > 1) {
+            Logger.log(`Cycle ${cycle}/${cycles}`);
+          }
+
+          // Force GC before each cycle if strategy allows
+          if (hasGC && gcStrategy === "per-cycle") {
+            globalThis.gc?.();
+          }
+
+          // Prepare queue for the current cycle, skipping stopped tests
+          const queue: TestQueue = this.results.flatMap((result, i) =>
+            result.status === "timed-out" || result.status === "failed"
+              ? []
+              : {
+                  index: i,
+                  result,
+                  runs: 0,
+                  elapsed: 0,
+                  stats: runningStats[i]!,
+                  fn: this.tests[i].fn,
+                  batchSize: batchSizes[i]!,
+                  ...eachHooks[i]!,
+                },
+          );
+
+          while (queue.length && !signal?.aborted) {
+            // Random execution order by default to avoid bias from JIT optimizations
+            const i = nextTest(queue);
+            const test = queue[i]!;
+            let interrupt: Interrupt | undefined;
+
+            try {
+              const { name, samples } = test.result;
+              const values = Array.from({ length: test.batchSize }, (_, call) =>
+                createValue({ test: name, sample: samples.length, call, params: hookParams }),
+              );
+
+              if (test.beforeEach.length) await runHooks(test.beforeEach, hookParams);
+
+              // Stop waiting on samples that time out or get aborted
+              const sampleTimeout = Math.min(
+                timeout ?? Infinity,
+                (testTimeout ?? Infinity) - timeSpent[test.index]!,
+              );
+              interrupt = createInterrupt(sampleTimeout, signal);
+
+              const stopMeasuringCpu = cpu ? measureCpu() : undefined;
+              const heapBefore = memory ? process.memoryUsage().heapUsed : 0;
+              const start = performance.now();
+              const { result, elapsed } = await timeCalls(test.fn, values, hookParams, interrupt);
+              const end = performance.now();
+              const heapDelta = memory ? process.memoryUsage().heapUsed - heapBefore : 0;
+              const cpuSample = stopMeasuringCpu?.(elapsed);
+              sampleSpans.push(test.index, start, end);
+              interrupt?.cancel();
+              timeSpent[test.index]! += elapsed;
+
+              if (test.afterEach.length) await runHooks(test.afterEach, hookParams);
+
+              if (result === ABORTED) break;
+              if (result === TIMED_OUT) {
+                queue.splice(i, 1);
+                test.result.status = "timed-out";
+                continue;
+              }
+
+              const runTime = Math.max(0, elapsed - overhead) / test.batchSize;
+              if (memory) heapDeltas[test.index]!.push(heapDelta);
+              if (cpuSample) cpuSamples[test.index]!.push(cpuSample);
+              iterationCount++;
+              const testCompleted = this.#handleIteration({
+                queue,
+                i,
+                runTime,
+                elapsed,
+                result,
+                value: values[values.length - 1],
+                iterations,
+                options,
+              });
+              if (testCompleted && cycle === cycles) {
+                test.result.status = "completed";
+              }
+
+              // Stop tests with a sample that finished after its timeout
+              if (elapsed > sampleTimeout) {
+                const index = queue.indexOf(test);
+                if (index !== -1) queue.splice(index, 1);
+                test.result.status = "timed-out";
+              }
+
+              // Handle GC based on strategy
+              if (hasGC) {
+                this.#handleGarbageCollection(gcStrategy, {
+                  testCompleted,
+                  iterationCount,
+                  gcInterval,
+                });
+              }
+
+              if (coolDown) {
+                await new Promise((resolve) => setTimeout(resolve, coolDown));
+              }
+            } catch (error) {
+              // Stop the failed test and keep running the rest
+              interrupt?.cancel();
+              const index = queue.indexOf(test);
+              if (index !== -1) queue.splice(index, 1);
+              this.#failTest(test.result, error, options);
+            }
+          }
+        }
+
+        // Run each test under load to measure its throughput and event loop
+        // delay
+        if (concurrency > 1 || eventLoopDelay) {
+          for (const [i, { fn }] of this.tests.entries()) {
+            const result = this.results[i]!;
+            if (result.status !== "completed" || signal?.aborted) continue;
+            try {
+              await this.#runUnderLoad(result, fn, createValue, hookParams, eachHooks[i]!, {
+                concurrency,
+                eventLoopDelay,
+                timeout,
+                interrupt: createInterrupt((testTimeout ?? Infinity) - timeSpent[i]!, signal),
+              });
+            } catch (error) {
+              this.#failTest(result, error, options);
+            }
+          }
+        }
+
+        const gcStats = getGCStats(await stopObservingGC(), sampleSpans, this.tests.length);
+        for (const [i, result] of this.results.entries()) {
+          if (result.samples.length) result.gc = gcStats[i];
+        }
+
+        if (cpu) {
+          for (const [i, result] of this.results.entries()) {
+            if (cpuSamples[i]!.length) {
+              result.cpu = getCpuUsage(cpuSamples[i]!, batchSizes[i]!);
+            }
+          }
+        }
+
+        if (memory) {
+          const { heapOverhead } = this.calibration!;
+          for (const [i, result] of this.results.entries()) {
+            const deltas = heapDeltas[i]!;
+            if (!deltas.length) continue;
+            const testBatchSize = batchSizes[i]!;
+
+            // The heap only shrinks when GC runs, which hides what was allocated
+            const allocations = deltas.filter((delta) => delta >= 0);
+            result.memory = {
+              heapUsedDelta: (getMean(deltas) - heapOverhead) / testBatchSize,
+              ...(allocations.length && {
+                allocatedPerOp: Math.max(0, getMean(allocations) - heapOverhead) / testBatchSize,
+              }),
+            };
+
+            if (hasGC && result.status === "completed") {
+              try {
+                const retainedPerOp = await this.#measureRetained(
+                  result,
+                  this.tests[i]!.fn,
+                  testBatchSize,
+                  createValue,
+                  hookParams,
+                  eachHooks[i]!,
+                  options,
+                );
+                if (retainedPerOp !== undefined) result.memory.retainedPerOp = retainedPerOp;
+              } catch (error) {
+                this.#failTest(result, error, options);
+              }
+            }
+          }
+        }
+      }
+
+      if (signal?.aborted) {
+        for (const result of this.results) {
+          result.status ??= "aborted";
+        }
+      }
+    } catch (error) {
+      Logger.group().error(`${this.name} failed:`, error).groupEnd();
+      return false;
+    } finally {
+      await stopObservingGC?.();
+      for (const [i, { hooks }] of this.tests.entries()) {
+        try {
+          await hooks?.afterAll?.(hookParams);
+        } catch (error) {
+          this.#failTest(this.results[i]!, error, { verbosity });
+        }
+      }
+      await runHooks(this.#hooks.afterAll, hookParams);
+    }
+
+    // Calculate statistics
+    this.#calculateStatistics(options);
+
+    if (verbosity > 0) {
+      if (signal?.aborted) {
+        Logger.warn("Aborted, showing partial results");
+      }
+      this.printResults({ verbosity: verbosity as 1 | 2 });
+      Logger.groupEnd(); // Close the main benchmark group
+    }
+
+    return true;
+  }
+
+  /**
+   * Print the results of the last run.
+   * @param options - Options for the printed output.
+   */
+  printResults({ verbosity = 1 }: PrintOptions = {}) {
+    // Sort by parameter combination, then speed
+    const groups = new Map<string, TestResult<TTestName>[]>();
+    for (const result of this.results) {
+      groups.set(formatParams(result.params ?? {}), []);
+    }
+    const groupKeys = [...groups.keys()];
+    const getGroupIndex = (result: TestResult) =>
+      groupKeys.indexOf(formatParams(result.params ?? {}));
+    this.results.sort(
+      (a, b) => getGroupIndex(a) - getGroupIndex(b) || getMeanTime(a) - getMeanTime(b),
+    );
+    for (const result of this.results) {
+      groups.get(formatParams(result.params ?? {}))!.push(result);
+    }
+
+    for (const [key, results] of groups) {
+      if (groups.size > 1) Logger.log(Formatter.bold(key));
+      this.#printTable(results, verbosity);
+    }
+
+    if (groups.size > 1) this.#printScaling();
+  }
+
+  /**
+   * Export the benchmark results to a JSON file.
+   * @param filePath - The path to save the JSON file to.
+   */
+  exportToJson(filePath: string): this {
+    const data: BenchmarkData = {
+      schemaVersion: RESULTS_SCHEMA_VERSION,
+      name: this.name,
+      timestamp: new Date().toISOString(),
+      seed: this.seed,
+      options: this.#runOptions && omitNonFinite(this.#runOptions),
+      environment: getEnvironment(),
+      results: this.results,
+    };
+
+    // Write the JSON file
+    writeFileSync(filePath, JSON.stringify(data));
+    Logger.success(`Benchmark data exported to ${filePath}`);
+
+    return this;
+  }
+
+  /**
+   * Compare the results of the last run to a baseline run exported with
+   * {@linkcode Benchmark.exportToJson}. Tests are matched by name and
+   * parameters, and each one is marked faster, slower or unchanged based on
+   * a significance test of both runs' samples.
+   * @param baseline - The path to the exported JSON file, or its data. Results
+   * from older versions of the schema are migrated with
+   * {@linkcode loadResults}.
+   * @param options - Options for the comparison.
+   * @returns The comparison of each test that's in both runs.
+   */
+  compareTo(
+    baseline: string | BenchmarkData | BenchmarkDataV1,
+    {
+      confidence = 0.95,
+      significanceTest = "welch",
+      threshold,
+      thresholds = {},
+      verbosity = 1,
+    }: CompareOptions = {},
+  ): BaselineComparison[] {
+    if (!(confidence > 0 && confidence < 1)) {
+      throw new Error(`Confidence level must be between 0 and 1; got ${confidence}`);
+    }
+    for (const value of [threshold, ...Object.values(thresholds)]) {
+      if (value !== undefined && !(value >= 0)) {
+        throw new Error(`Regression threshold must be a non-negative number; got ${value}`);
+      }
+    }
+
+    const data = loadResults(baseline);
+
+    const getKey = ({ name, params }: TestResult) =>
+      JSON.stringify([name, formatParams(params ?? {})]);
+    const baselineResults = new Map(data.results.map((result) => [getKey(result), result]));
+    const comparisons: BaselineComparison[] = [];
+    const warnings: string[] = [];
+
+    for (const result of this.results) {
+      const key = getKey(result);
+      const baselineResult = baselineResults.get(key);
+      baselineResults.delete(key);
+
+      if (!baselineResult) {
+        warnings.push(`${formatTestLabel(result)}: not in the baseline`);
+      } else if (!baselineResult.samples.length || !result.samples.length) {
+        warnings.push(`${formatTestLabel(result)}: no samples to compare`);
+      } else {
+        comparisons.push(
+          compareToBaseline(result, baselineResult, {
+            confidence,
+            method: significanceTest,
+            threshold: thresholds[result.name] ?? threshold,
+          }),
+        );
+      }
+    }
+    for (const result of baselineResults.values()) {
+      warnings.push(`${formatTestLabel(result)}: only in the baseline`);
+    }
+
+    if (verbosity > 0) {
+      this.#printBaselineComparison(comparisons, data.name);
+      for (const warning of warnings) Logger.warn(warning);
+    }
+
+    return comparisons;
+  }
+
+  #printTable(results: TestResult[], verbosity: number) {
+    let totalTime = 0;
+    let tiedCount = 0;
+    const labels: string[] = [];
+    const hasStatus = results.some(({ status }) => status && status !== "completed");
+    const hasMemory = results.some(({ memory }) => memory);
+    const hasRetained = results.some(({ memory }) => memory?.retainedPerOp !== undefined);
+    const hasCpu = results.some(({ cpu }) => cpu);
+
+    const resultData = Object.fromEntries(
+      results.map((test, i) => {
+        totalTime += test.totalTime;
+
+        const data: Record<string, string | number> = {
+          Runs: test.samples.length.toLocaleString(undefined, {
+            maximumFractionDigits: 0,
+          }),
+          ...(test.batchSize && { "Batch Size": test.batchSize.toLocaleString() }),
+          "Total Time (ms)": test.totalTime.toLocaleString(undefined, {
+            minimumFractionDigits: 4,
+            maximumFractionDigits: 4,
+          }),
+          "AVG Time (ms)": test.samples.length
+            ? getMeanTime(test).toLocaleString(undefined, {
+                minimumFractionDigits: 6,
+                maximumFractionDigits: 6,
+              })
+            : "-",
+        };
+
+        if (hasStatus) {
+          data.Status = test.status?.replace("-", " ") ?? "-";
+        }
+
+        // Add enhanced statistics if available
+        if (test.opsPerSecond) {
+          data["Ops/Sec"] = test.opsPerSecond.toLocaleString(undefined, {
+            minimumFractionDigits: 6,
+            maximumFractionDigits: 6,
+          });
+        }
+
+        if (test.medianTime !== undefined) {
+          data["Median (ms)"] = test.medianTime.toLocaleString(undefined, {
+            minimumFractionDigits: 6,
+            maximumFractionDigits: 6,
+          });
+        }
+
+        if (test.meanTime && test.marginOfError) {
+          const key =
+            test.confidence && test.confidence !== 0.95
+              ? `± (%, ${formatPercent(test.confidence)} CI)`
+              : "± (%)";
+          data[key] = `${(test.marginOfError / test.meanTime).toLocaleString(undefined, {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+            style: "percent",
+          })}`;
+        }
+
+        if (test.outliers) {
+          const { mild, severe } = test.outliers;
+          const count = (mild + severe).toLocaleString();
+          data.Outliers = severe ? `${count} (${severe.toLocaleString()} severe)` : count;
+        }
+
+        if (test.converged !== undefined) {
+          data.Converged = test.converged ? "yes" : "no";
+        }
+
+        if (hasCpu) {
+          data["CPU Time (ms)"] = formatFixed(test.cpu?.meanTime);
+          data["CPU/Wall"] = test.cpu ? formatPercent(test.cpu.cpuWallRatio) : "-";
+        }
+
+        if (hasMemory) {
+          const allocated = test.memory?.allocatedPerOp;
+          data["Alloc/Op"] = allocated === undefined ? "-" : formatBytes(allocated);
+        }
+        if (hasRetained) {
+          const retained = test.memory?.retainedPerOp;
+          data["Retained/Op"] = retained === undefined ? "-" : formatBytes(retained);
+        }
+
+        if (test.relative) {
+          data.Relative =
+            test.relative.baseline === test.name ? "baseline" : formatRelative(test.relative);
+        }
+
+        const { comparison } = test;
+        if (comparison) {
+          const isBaseline = comparison.baseline === test.name;
+          data["p-value"] = isBaseline ? "-" : formatPValue(comparison.pValue);
+          data[comparison.method === "welch" ? "Effect (d)" : "Effect (r)"] = isBaseline
+            ? "-"
+            : comparison.effectSize.toLocaleString(undefined, {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+              });
+          data.Group = comparison.group;
+          if (comparison.group === 1) tiedCount++;
+        }
+
+        // Every test that's indistinguishable from the fastest one shares the win
+        const isWinner = comparison ? comparison.group === 1 : i === 0;
+
+        let label = Formatter.bold(test.name);
+        if (results.length > 1) {
+          const maxPlaceLength = results.length.toString().length;
+          const place = `${i + 1}`.padStart(maxPlaceLength, " ");
+          label = `${place} ${Formatter.dim("-")} ${label}${isWinner ? " 🏆" : ""}`;
+        }
+
+        labels.push(label);
+        return [label, data];
+      }),
+    );
+
+    Logger.table(resultData);
+
+    if (results.some(({ throughput, eventLoopDelay }) => throughput || eventLoopDelay)) {
+      this.#printAsync(results, labels);
+    }
+
+    if (verbosity > 1) {
+      this.#printDistribution(results, labels);
+    }
+
+    for (const test of results) {
+      for (const warning of test.warnings ?? []) {
+        Logger.warn(`${Formatter.bold(test.name)}: ${warning}`);
+      }
+    }
+
+    if (tiedCount > 1) {
+      Logger.italic.info(
+        `${tiedCount} tests are statistically indistinguishable from the fastest test`,
+      );
+    }
+
+    Logger.italic.info(
+      `Total time: ${totalTime.toLocaleString(undefined, {
+        maximumFractionDigits: 6,
+      })} ms\n`,
+    );
+  }
+
+  #printDistribution(results: TestResult[], labels: string[]) {
+    const hasGCStats = results.some(({ gc }) => gc);
+    const hasCpu = results.some(({ cpu }) => cpu);
+    const distributionData = Object.fromEntries(
+      results.map((test, i) => [
+        labels[i],
+        {
+          "Min (ms)": formatFixed(test.minTime),
+          ...(test.medianInterval && {
+            "Median CI (ms)": `${formatFixed(test.medianInterval.lower)} - ${formatFixed(test.medianInterval.upper)}`,
+          }),
+          "P75 (ms)": formatFixed(test.percentiles?.p75),
+          "P90 (ms)": formatFixed(test.percentiles?.p90),
+          "P95 (ms)": formatFixed(test.percentiles?.p95),
+          "P99 (ms)": formatFixed(test.percentiles?.p99),
+          "P99.9 (ms)": formatFixed(test.percentiles?.p999),
+          "Max (ms)": formatFixed(test.maxTime),
+          "IQR (ms)": formatFixed(test.interquartileRange),
+          CV:
+            test.coefficientOfVariation === undefined
+              ? "-"
+              : test.coefficientOfVariation.toLocaleString(undefined, {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                  style: "percent",
+                }),
+          ...(hasGCStats && {
+            GCs: test.gc ? formatGCCount(test.gc) : "-",
+            "GC Pause (ms)": formatFixed(test.gc?.pauseTime),
+          }),
+          ...(hasCpu && {
+            "CPU Median (ms)": formatFixed(test.cpu?.medianTime),
+            "CPU SD (ms)": formatFixed(test.cpu?.stdDeviation),
+            "Ctx Switches (vol/invol)": test.cpu
+              ? `${test.cpu.voluntaryContextSwitches.toLocaleString()}/${test.cpu.involuntaryContextSwitches.toLocaleString()}`
+              : "-",
+            "Page Faults (minor/major)": test.cpu
+              ? `${test.cpu.minorPageFaults.toLocaleString()}/${test.cpu.majorPageFaults.toLocaleString()}`
+              : "-",
+          }),
+        },
+      ]),
+    );
+
+    Logger.table(distributionData);
+  }
+
+  #printAsync(results: TestResult[], labels: string[]) {
+    const hasThroughput = results.some(({ throughput }) => throughput);
+    const hasDelay = results.some(({ eventLoopDelay }) => eventLoopDelay);
+
+    const asyncData = Object.fromEntries(
+      results.map(({ throughput, eventLoopDelay }, i) => [
+        labels[i],
+        {
+          ...(hasThroughput && {
+            Concurrency: throughput?.concurrency.toLocaleString() ?? "-",
+            "Ops/Sec": formatFixed(throughput?.opsPerSecond),
+            "Mean Latency (ms)": formatFixed(throughput?.meanLatency),
+            "Median Latency (ms)": formatFixed(throughput?.medianLatency),
+            "P99 Latency (ms)": formatFixed(throughput?.latencyPercentiles.p99),
+          }),
+          ...(hasDelay && {
+            "Loop Delay Mean (ms)": formatFixed(eventLoopDelay?.mean),
+            "Loop Delay P99 (ms)": formatFixed(eventLoopDelay?.percentiles.p99),
+            "Loop Delay Max (ms)": formatFixed(eventLoopDelay?.max),
+          }),
+        },
+      ]),
+    );
+
+    Logger.table(asyncData);
+  }
+
+  #printBaselineComparison(comparisons: BaselineComparison[], baselineName: string) {
+    const formatChange = (value: number) =>
+      value.toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+        signDisplay: "exceptZero",
+        style: "percent",
+      });
+    const hasThresholds = comparisons.some(({ threshold }) => threshold !== undefined);
+    const formatVerdict = {
+      faster: Formatter.green,
+      slower: Formatter.red,
+      unchanged: Formatter.dim,
+    };
+
+    const comparisonData = Object.fromEntries(
+      comparisons.map((comparison) => [
+        formatTestLabel(comparison),
+        {
+          "Baseline (ms)": formatFixed(comparison.baselineTime),
+          "Current (ms)": formatFixed(comparison.meanTime),
+          Change: `${formatChange(comparison.change)} ± ${formatPercent(comparison.marginOfError)}`,
+          "p-value": comparison.pValue === undefined ? "-" : formatPValue(comparison.pValue),
+          Verdict: formatVerdict[comparison.verdict](comparison.verdict),
+          ...(hasThresholds && {
+            Threshold:
+              comparison.threshold === undefined ? "-" : formatPercent(comparison.threshold),
+            Regression: comparison.regression ? Formatter.red("yes") : "no",
+          }),
+        },
+      ]),
+    );
+
+    const counts = { faster: 0, slower: 0, unchanged: 0 };
+    for (const { verdict } of comparisons) counts[verdict]++;
+    const summary = Object.entries(counts).map(
+      ([verdict, count]) => `${count.toLocaleString()} ${verdict}`,
+    );
+    if (hasThresholds) {
+      const regressions = comparisons.filter(({ regression }) => regression).length;
+      summary.push(`${regressions.toLocaleString()} regression${regressions === 1 ? "" : "s"}`);
+    }
+
+    Logger.group(`${this.name}${Formatter.dim(" - ")}Compared to ${baselineName}`);
+    if (comparisons.length) Logger.table(comparisonData);
+    Logger.italic.info(summary.join(", "));
+    Logger.groupEnd();
+  }
+
+  /**
+   * Print each test's mean time for every parameter combination, and how fast
+   * it grows when a single numeric parameter varies.
+   */
+  #printScaling() {
+    const keys = new Set(this.results.flatMap(({ params }) => Object.keys(params ?? {})));
+    const varying = [...keys].filter(
+      (key) => new Set(this.results.map(({ params }) => params?.[key])).size > 1,
+    );
+    const growthParam = varying.length === 1 ? varying[0]! : undefined;
+
+    const rows = new Map<string, Record<string, string>>();
+    const points = new Map<string, [number, number][]>();
+    for (const result of this.results) {
+      if (!rows.has(result.name)) {
+        rows.set(result.name, {});
+        points.set(result.name, []);
+      }
+      const meanTime = getMeanTime(result);
+      rows.get(result.name)![`${formatParams(result.params ?? {})} (ms)`] = formatTime(meanTime);
+      if (growthParam) {
+        points.get(result.name)!.push([result.params?.[growthParam], meanTime]);
+      }
+    }
+
+    const scalingData = Object.fromEntries(
+      [...rows].map(([name, row]) => {
+        const testPoints = points.get(name)!;
+        const canFit =
+          new Set(testPoints.map(([x]) => x)).size > 1 &&
+          testPoints.every(([x, y]) => typeof x === "number" && x > 0 && y > 0);
+        if (canFit) {
+          row.Growth = `${growthParam}^${getScalingExponent(testPoints).toLocaleString(undefined, {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          })}`;
+        }
+        return [Formatter.bold(name), row];
+      }),
+    );
+
+    Logger.group(`${this.name}${Formatter.dim(" - ")}Scaling`);
+    Logger.table(scalingData);
+    Logger.groupEnd();
+  }
+
+  /**
+   * Run each test in its own worker thread or child process, one at a time,
+   * collecting the samples they stream back.
+   */
+  async #runIsolated(
+    isolation: Exclude<Isolation, "none">,
+    iterations: number,
+    {
+      batchSize,
+      clone,
+      confidence,
+      coolDown,
+      cycles,
+      gcInterval,
+      gcStrategy,
+      maxSamples,
+      minSamples,
+      preheat,
+      preheatTime = DEFAULT_PREHEAT_TIME,
+      memory,
+      cpu,
+      eventLoopDelay,
+      concurrency,
+      subtractOverhead,
+      targetRme,
+      testTimeout,
+      time,
+      timeout,
+      value,
+      signal,
+      bail,
+      verbosity = 1,
+    }: RunOptions<TValue, TReturn>,
+    params?: Params,
+  ) {
+    for (const [i, { name, source }] of this.tests.entries()) {
+      if (signal?.aborted) break;
+
+      const result = this.results[i]!;
+      if (result.status === "failed") continue;
+      if (verbosity > 1) {
+        Logger.log(`Starting ${isolation} for ${Formatter.bold(name)}`);
+      }
+      const isolatedResult = await runIsolated(
+        isolation,
+        {
+          name,
+          module: source!.module,
+          export: source!.export ?? "default",
+          iterations,
+          params,
+          options: {
+            batchSize,
+            clone: clone as false | "structured" | undefined,
+            confidence,
+            coolDown,
+            cycles,
+            gcInterval,
+            gcStrategy,
+            maxSamples,
+            minSamples,
+            preheat,
+            preheatTime,
+            memory,
+            cpu,
+            eventLoopDelay,
+            concurrency,
+            seed: this.seed,
+            subtractOverhead,
+            targetRme,
+            testTimeout,
+            time,
+            timeout,
+            value,
+          },
+        },
+        (samples) => {
+          for (const sample of samples) {
+            result.samples.push(sample);
+            result.totalTime += sample;
+          }
+        },
+        signal,
+      ).catch((error) => {
+        // Keep the samples streamed before an abort
+        if (!signal?.aborted) this.#failTest(result, error, { bail, verbosity });
+      });
+      if (!isolatedResult) continue;
+
+      const {
+        batchSize: testBatchSize,
+        overhead,
+        converged,
+        warmup,
+        memory: memoryUsage,
+        gc,
+        cpu: cpuUsage,
+        throughput,
+        eventLoopDelay: delay,
+        status,
+      } = isolatedResult;
+      if (testBatchSize !== undefined) result.batchSize = testBatchSize;
+      if (overhead !== undefined) result.overhead = overhead;
+      if (converged !== undefined) result.converged = converged;
+      if (warmup !== undefined) result.warmup = warmup;
+      if (memoryUsage !== undefined) result.memory = memoryUsage;
+      if (gc !== undefined) result.gc = gc;
+      if (cpuUsage !== undefined) result.cpu = cpuUsage;
+      if (throughput !== undefined) result.throughput = throughput;
+      if (delay !== undefined) result.eventLoopDelay = delay;
+      result.status = status;
+      if (verbosity > 0) this.#logWarmup(result, preheatTime);
+    }
+  }
+
+  /**
+   * Mark a test as failed so the rest of the tests can keep running, or stop
+   * the run with `bail`.
+   */
+  #failTest(
+    result: TestResult,
+    error: unknown,
+    { bail = false, verbosity = 1 }: Pick<RunOptions, "bail" | "verbosity">,
+  ) {
+    result.status = "failed";
+    result.error = error instanceof Error ? error.message : String(error);
+    if (bail) throw error;
+    if (verbosity > 0) {
+      Logger.error(`${result.name} failed:`, error);
     }
-    return this.run(iterations, {
-      value: value as TValue,
-      verbosity: 0,
-      gcStrategy,
-      gcInterval,
-    });
   }
 
   /**
-   * Run the tests.
-   * @param iterations - The number of times to run each test.
-   * @param options - Options for the run.
+   * Find the smallest batch size, in powers of 2, at which a test takes long
+   * enough to make the timing overhead and timer resolution negligible. Tests
+   * with a batch that times out are marked as timed out.
    */
-  async run(...[iterations = 1e5, options]: RunArgs<TValue, TReturn>): Promise<this> {
-    const {
-      coolDown,
-      cycles = 1,
-      gcInterval = 1000,
-      gcStrategy = "periodic",
-      name,
-      value,
-      verbosity = 1,
-    } = options || {};
-    const hasGC = !!globalThis.gc;
-    let iterationCount = 0;
+  async #findBatchSize(
+    result: TestResult,
+    fn: TestFunction,
+    createValue: ValueFactory,
+    params: Params,
+    { beforeEach, afterEach }: { beforeEach: Hook[]; afterEach: Hook[] },
+    { timeout, signal }: RunOptions<TValue, TReturn>,
+  ): Promise<number> {
+    const { timerResolution, overhead } = this.calibration!;
+    const targetTime = AUTO_BATCH_FACTOR * Math.max(timerResolution, overhead);
 
-    // Show overall benchmark info
-    if (verbosity > 0) {
-      if (!hasGC && gcStrategy !== "never") {
-        Logger.warn("No GC hook! Consider running with --expose-gc");
-      }
-      Logger.group(
-        `${this.name}${name ? `${Formatter.dim(" - ")}${name}` : ""}${
-          cycles > 1 ? Formatter.dim(` (${cycles} cycles)`) : ""
-        }`,
-      ).pending(
-        `Running ${cycles} ${cycles > 1 ? "cycles" : "cycle"} of ${this.tests.length} ${
-          this.tests.length > 1 ? "tests" : "test"
-        } ${iterations} times each...`,
+    let batchSize = 1;
+    // The first call includes compiling the test, so it's only checked for
+    // timeouts
+    let warm = false;
+    while (batchSize < MAX_AUTO_BATCH_SIZE) {
+      const values = Array.from({ length: batchSize }, (_, call) =>
+        createValue({ test: result.name, sample: 0, call, params }),
       );
-      if (verbosity > 1) {
-        Logger.log(
-          `GC Strategy: ${gcStrategy}${
-            gcStrategy === "periodic" ? ` (every ${gcInterval} iterations)` : ""
-          }`,
-        );
-        if (value !== undefined) {
-          Logger.log("Value:", value);
-        }
+      await runHooks(beforeEach, params);
+      const interrupt = createInterrupt(timeout ?? Infinity, signal);
+      const { result: callResult, elapsed } = await timeCalls(
+        fn,
+        values,
+        params,
+        interrupt,
+      ).finally(() => interrupt?.cancel());
+      await runHooks(afterEach, params);
+
+      if (callResult === ABORTED) break;
+      if (callResult === TIMED_OUT || elapsed > (timeout ?? Infinity)) {
+        result.status = "timed-out";
+        break;
+      }
+      if (!warm) {
+        warm = true;
+        continue;
       }
+      if (elapsed >= targetTime) break;
+      batchSize *= 2;
     }
 
-    // Reset results
-    this.results = this.tests.map(({ name }) => ({
-      name,
-      samples: [],
-      totalTime: 0,
-    }));
+    return batchSize;
+  }
 
-    // Run multiple cycles
-    for (let cycle = 1; cycle <= cycles; cycle++) {
-      if (verbosity > 0 && cycles > 1) {
-        Logger.log(`Cycle ${cycle}/${cycles}`);
-      }
+  /**
+   * Run a test a fixed number of times before sampling, in batches of the size
+   * it's sampled with. Tests with a batch that times out are marked as timed
+   * out.
+   */
+  async #preheatTest(
+    result: TestResult,
+    fn: TestFunction,
+    iterations: number,
+    batchSize: number,
+    createValue: ValueFactory,
+    params: Params,
+    { beforeEach, afterEach }: { beforeEach: Hook[]; afterEach: Hook[] },
+    { timeout, testTimeout, signal }: RunOptions<TValue, TReturn>,
+  ) {
+    let timeSpent = 0;
+    for (let sample = 0; sample * batchSize < iterations && !signal?.aborted; sample++) {
+      const values = Array.from({ length: batchSize }, (_, call) =>
+        createValue({ test: result.name, sample, call, params }),
+      );
+
+      await runHooks(beforeEach, params);
+      const interrupt = createInterrupt(
+        Math.min(timeout ?? Infinity, (testTimeout ?? Infinity) - timeSpent),
+        signal,
+      );
+      const { result: callResult, elapsed } = await timeCalls(
+        fn,
+        values,
+        params,
+        interrupt,
+      ).finally(() => interrupt?.cancel());
+      await runHooks(afterEach, params);
 
-      // Force GC before each cycle if strategy allows
-      if (hasGC && gcStrategy === "per-cycle") {
-        globalThis.gc?.();
+      if (callResult === ABORTED) return;
+      timeSpent += elapsed;
+      if (
+        callResult === TIMED_OUT ||
+        elapsed > (timeout ?? Infinity) ||
+        timeSpent > (testTimeout ?? Infinity)
+      ) {
+        result.status = "timed-out";
+        return;
       }
+    }
+  }
 
-      // Prepare queue for the current cycle
-      const queue: TestQueue = this.results.map((result, i) => ({
-        result,
-        runs: 0,
-        fn: this.tests[i].fn,
-      }));
-
-      try {
-        while (queue.length) {
-          const { i, test, clonedValue } = this.#prepareIteration(queue, value);
-
-          const runStart = performance.now();
-          const result = await test.fn(clonedValue);
-          const runTime = performance.now() - runStart;
-
-          iterationCount++;
-          const testCompleted = this.#handleIteration({
-            queue,
-            i,
-            runTime,
-            result,
-            iterations,
-            options,
-          });
+  /**
+   * Run a test until the mean and standard deviation of its recent samples
+   * stabilize, or until it runs out of warmup time, recording the warmup
+   * samples on its result.
+   */
+  async #warmUp(
+    result: TestResult,
+    fn: TestFunction,
+    batchSize: number,
+    createValue: ValueFactory,
+    params: Params,
+    { beforeEach, afterEach }: { beforeEach: Hook[]; afterEach: Hook[] },
+    {
+      preheatTime = DEFAULT_PREHEAT_TIME,
+      timeout,
+      signal,
+      overhead,
+    }: RunOptions<TValue, TReturn> & { overhead: number },
+  ) {
+    const warmup: Warmup = { samples: [] };
+    result.warmup = warmup;
 
-          // Handle GC based on strategy
-          if (hasGC) {
-            this.#handleGarbageCollection(gcStrategy, {
-              testCompleted,
-              iterationCount,
-              gcInterval,
-            });
-          }
+    const start = performance.now();
+    while (
+      warmup.samples.length < MAX_WARMUP_SAMPLES &&
+      performance.now() - start < preheatTime &&
+      !signal?.aborted
+    ) {
+      const values = Array.from({ length: batchSize }, (_, call) =>
+        createValue({ test: result.name, sample: warmup.samples.length, call, params }),
+      );
 
-          if (coolDown) {
-            await new Promise((resolve) => setTimeout(resolve, coolDown));
-          }
-        }
-      } catch (error) {
-        Logger.group().error(`${this.name} failed:`, error).groupEnd();
-        return this;
-      }
-    }
+      await runHooks(beforeEach, params);
+      const interrupt = createInterrupt(timeout ?? Infinity, signal);
+      const { result: callResult, elapsed } = await timeCalls(
+        fn,
+        values,
+        params,
+        interrupt,
+      ).finally(() => interrupt?.cancel());
+      await runHooks(afterEach, params);
 
-    // Calculate statistics
-    this.#calculateStatistics();
+      if (callResult === ABORTED) return;
+      if (callResult === TIMED_OUT || elapsed > (timeout ?? Infinity)) {
+        result.status = "timed-out";
+        return;
+      }
 
-    if (verbosity > 0) {
-      this.printResults();
-      Logger.groupEnd(); // Close the main benchmark group
+      warmup.samples.push(Math.max(0, elapsed - overhead) / batchSize);
+      warmup.steadyState = findSteadyState(warmup.samples);
+      if (warmup.steadyState !== undefined) return;
     }
-
-    return this;
   }
 
-  printResults() {
-    let totalTime = 0;
+  /**
+   * Call a test as many times as it was sampled with `concurrency` calls in
+   * flight at once, and record its throughput, latencies and, optionally, the
+   * event loop delay meanwhile. A call that runs longer than `timeout` stops
+   * the test like a sample would.
+   */
+  async #runUnderLoad(
+    result: TestResult,
+    fn: TestFunction,
+    createValue: ValueFactory,
+    params: Params,
+    { beforeEach, afterEach }: { beforeEach: Hook[]; afterEach: Hook[] },
+    {
+      concurrency,
+      eventLoopDelay,
+      timeout,
+      interrupt,
+    }: { concurrency: number; eventLoopDelay: boolean; timeout?: number; interrupt?: Interrupt },
+  ) {
+    const { name, samples, batchSize = 1 } = result;
+    const calls = Math.max(samples.length * batchSize, concurrency);
+    // Create the values up front so the factory isn't timed with the calls
+    const values = Array.from({ length: calls }, (_, call) =>
+      createValue({ test: name, sample: samples.length, call, params }),
+    );
 
-    const resultData = Object.fromEntries(
-      this.results
-        .sort((a, b) => a.totalTime - b.totalTime)
-        .map((test, i) => {
-          totalTime += test.totalTime;
-
-          const data: Record<string, string | number> = {
-            Runs: test.samples.length.toLocaleString(undefined, {
-              maximumFractionDigits: 0,
-            }),
-            "Total Time (ms)": test.totalTime.toLocaleString(undefined, {
-              minimumFractionDigits: 4,
-              maximumFractionDigits: 4,
-            }),
-            "AVG Time (ms)": (test.meanTime ?? test.totalTime / test.samples.length).toLocaleString(
-              undefined,
-              {
-                minimumFractionDigits: 6,
-                maximumFractionDigits: 6,
-              },
-            ),
-          };
-
-          // Add enhanced statistics if available
-          if (test.opsPerSecond) {
-            data["Ops/Sec"] = test.opsPerSecond.toLocaleString(undefined, {
-              minimumFractionDigits: 6,
-              maximumFractionDigits: 6,
-            });
-          }
+    // Histograms can't be paused, since the first delay after resuming includes
+    // the pause, so each test gets its own for the whole run. The loop needs to
+    // turn before and after the calls for delays at the edges to be recorded.
+    const histogram = eventLoopDelay
+      ? monitorEventLoopDelay({ resolution: EVENT_LOOP_RESOLUTION })
+      : undefined;
+    const turnLoop = () => new Promise((resolve) => setTimeout(resolve, EVENT_LOOP_RESOLUTION));
 
-          if (test.meanTime && test.marginOfError) {
-            data["± (%)"] = `${(test.marginOfError / test.meanTime).toLocaleString(undefined, {
-              minimumFractionDigits: 2,
-              maximumFractionDigits: 2,
-              style: "percent",
-            })}`;
-          }
+    await runHooks(beforeEach, params);
+    histogram?.enable();
+    let run: ConcurrentRun;
+    try {
+      if (histogram) await turnLoop();
+      run = await runConcurrently(
+        (call) => fn(values[call], params),
+        calls,
+        concurrency,
+        interrupt?.promise,
+        timeout,
+      );
+      if (histogram) await turnLoop();
+    } finally {
+      histogram?.disable();
+      interrupt?.cancel();
+    }
+    await runHooks(afterEach, params);
 
-          let label = Formatter.bold(test.name);
-          if (this.results.length > 1) {
-            const maxPlaceLength = this.results.length.toString().length;
-            const place = `${i + 1}`.padStart(maxPlaceLength, " ");
-            label = `${place} ${Formatter.dim("-")} ${label}${i === 0 ? " 🏆" : ""}`;
-          }
+    if (histogram) {
+      const delay = getEventLoopDelay(histogram);
+      if (delay) result.eventLoopDelay = delay;
+    }
 
-          return [label, data];
-        }),
-    );
+    // Stopped by a call's timeout, the test timeout or the signal
+    if (run.timedOut) {
+      result.status = "timed-out";
+      return;
+    }
+    if (run.interrupted) {
+      result.status = (await interrupt?.promise) === ABORTED ? "aborted" : "timed-out";
+      return;
+    }
 
-    Logger.table(resultData);
-    Logger.italic.info(
-      `Total time: ${totalTime.toLocaleString(undefined, {
-        maximumFractionDigits: 6,
-      })} ms\n`,
-    );
+    const latencies = run.latencies.sort((a, b) => a - b);
+    result.throughput = {
+      concurrency,
+      calls,
+      totalTime: run.elapsed,
+      opsPerSecond: (calls / run.elapsed) * 1000,
+      meanLatency: getMean(latencies),
+      medianLatency: getPercentile(latencies, 0.5),
+      latencyPercentiles: getPercentiles(latencies),
+    };
   }
 
   /**
-   * Export the benchmark results to a JSON file.
-   * @param filePath - The path to save the JSON file to.
+   * Measure the heap a batch of at least `MIN_RETAINED_CALLS` calls to a test
+   * leaves behind after a full GC, in bytes per call. Returns undefined if the
+   * batch times out or the run is aborted, marking the test as stopped.
    */
-  exportToJson(filePath: string): this {
-    const data = {
-      name: this.name,
-      results: this.results,
-    };
+  async #measureRetained(
+    result: TestResult,
+    fn: TestFunction,
+    batchSize: number,
+    createValue: ValueFactory,
+    params: Params,
+    { beforeEach, afterEach }: { beforeEach: Hook[]; afterEach: Hook[] },
+    { timeout, signal }: RunOptions<TValue, TReturn>,
+  ): Promise<number | undefined> {
+    const calls = Math.max(batchSize, MIN_RETAINED_CALLS);
+    const values = Array.from({ length: calls }, (_, call) =>
+      createValue({ test: result.name, sample: result.samples.length, call, params }),
+    );
 
-    // Write the JSON file
-    writeFileSync(filePath, JSON.stringify(data));
-    Logger.success(`Benchmark data exported to ${filePath}`);
+    await runHooks(beforeEach, params);
+    // The batch can be bigger than a sample, so scale the sample timeout with it
+    const interrupt = createInterrupt((timeout ?? Infinity) * (calls / batchSize), signal);
+    globalThis.gc!();
+    const heapBefore = process.memoryUsage().heapUsed;
+    // Let go of the result, keeping only whether the calls were interrupted, so
+    // only memory the calls kept alive is counted
+    const interruption = await timeCalls(fn, values, params, interrupt)
+      .then(({ result }) => (result === TIMED_OUT || result === ABORTED ? result : undefined))
+      .finally(() => interrupt?.cancel());
+    globalThis.gc!();
+    const retained = process.memoryUsage().heapUsed - heapBefore;
+    await runHooks(afterEach, params);
 
-    return this;
+    if (interruption === ABORTED) {
+      result.status = "aborted";
+      return;
+    }
+    if (interruption === TIMED_OUT) {
+      result.status = "timed-out";
+      return;
+    }
+
+    return Math.max(0, retained) / calls;
   }
 
-  #prepareIteration(queue: TestQueue, value: unknown) {
-    // Random execution order to avoid bias from JIT optimizations
-    const i = Math.floor(Math.random() * queue.length);
-    return {
-      i,
-      test: queue[i]!,
-      clonedValue: value && typeof value === "object" ? structuredClone(value) : value,
-    };
+  #logWarmup({ name, warmup, status }: TestResult, preheatTime: number) {
+    if (!warmup || status === "failed" || status === "timed-out") return;
+
+    const { samples, steadyState } = warmup;
+    if (steadyState === undefined) {
+      Logger.warn(
+        `${Formatter.bold(name)}: Times didn't stabilize after ${samples.length.toLocaleString()} warmup samples (max ${preheatTime} ms)`,
+      );
+      return;
+    }
+
+    // Compare the times before and after the steady state to show the JIT's
+    // effect
+    const change = steadyState
+      ? Formatter.dim(
+          ` (${formatTime(getMean(samples.slice(0, steadyState)))} ms → ${formatTime(
+            getMean(samples.slice(steadyState)),
+          )} ms)`,
+        )
+      : "";
+    Logger.log(
+      `${Formatter.bold(name)}: Steady after ${steadyState.toLocaleString()} of ${samples.length.toLocaleString()} warmup samples${change}`,
+    );
   }
 
   #handleIteration({
     queue,
     i,
     runTime,
+    elapsed,
     result,
+    value,
     iterations = 1e5,
-    options: { validate, value } = {},
+    options: {
+      validate,
+      onSample,
+      targetRme,
+      confidence = 0.95,
+      time,
+      minSamples = 5,
+      maxSamples = Infinity,
+    } = {},
   }: {
     queue: TestQueue;
     i: number;
     runTime: number;
+    elapsed: number;
     result: unknown;
+    value: unknown;
     iterations: number;
     options?: RunOptions;
   }): boolean {
     const test = queue[i]!;
     test.result.totalTime += runTime;
     test.result.samples.push(runTime);
-    const testCompleted = ++test.runs >= iterations;
+    test.elapsed += elapsed;
+    test.stats.push(runTime);
+    test.runs++;
+    onSample?.(test.result.name, runTime);
+
+    let testCompleted: boolean;
+    if (targetRme !== undefined) {
+      const converged =
+        test.runs >= minSamples && test.stats.getRelativeMarginOfError(confidence) <= targetRme;
+      test.result.converged = converged;
+      testCompleted =
+        converged || test.runs >= maxSamples || test.elapsed >= (time ?? DEFAULT_ADAPTIVE_TIME);
+    } else if (time !== undefined) {
+      testCompleted = test.runs >= maxSamples || (test.elapsed >= time && test.runs >= minSamples);
+    } else {
+      testCompleted = test.runs >= iterations;
+    }
+
     if (testCompleted) queue.splice(i, 1);
     if (validate) {
       const validationResult = validate(result, value) || "Validation failed";
@@ -428,14 +2732,80 @@ export class Benchmark<TTestName extends string & {} = string & {}, TValue = any
   /**
    * Calculate statistical measures for test results
    */
-  #calculateStatistics() {
+  #calculateStatistics({
+    confidence = 0.95,
+    outliers = "tukey",
+    excludeOutliers = false,
+    significanceTest = "welch",
+    baselineTest,
+    estimator = "parametric",
+    bootstrapResamples = 1000,
+    targetRme,
+  }: Omit<RunOptions, "value"> = {}) {
+    // The samples each test's stats are based on, after any outlier rejection
+    const includedSamples = new Map<TestResult, number[]>();
+    const random = createRandom(this.seed ?? createSeed());
+
     for (const result of this.results) {
-      const sampleSize = result.samples.length;
+      if (!result.samples.length) continue;
+
+      // Calculate order statistics, which aren't skewed by a few slow samples
+      const sorted = result.samples.toSorted((a, b) => a - b);
+      result.minTime = sorted[0];
+      result.maxTime = sorted[sorted.length - 1];
+      result.medianTime = getPercentile(sorted, 0.5);
+      result.percentiles = getPercentiles(sorted);
+      result.interquartileRange = result.percentiles.p75 - getPercentile(sorted, 0.25);
+
+      // Detect outliers and optionally leave them out of the remaining stats
+      let samples = result.samples;
+      if (outliers !== "none") {
+        const { mild, severe } = getOutlierFences(sorted, outliers);
+        const summary: OutlierSummary = {
+          method: outliers,
+          mild: 0,
+          severe: 0,
+          excluded: excludeOutliers,
+        };
+        for (const time of sorted) {
+          if (time < severe[0] || time > severe[1]) summary.severe++;
+          else if (time < mild[0] || time > mild[1]) summary.mild++;
+        }
+        result.outliers = summary;
+
+        if (excludeOutliers && summary.mild + summary.severe) {
+          samples = result.samples.filter((time) => time >= mild[0] && time <= mild[1]);
+        }
+      }
+      const sampleSize = samples.length;
+      includedSamples.set(result, samples);
 
-      if (!sampleSize) continue;
+      result.estimator = estimator;
+      const warnings: string[] = [];
+      if (result.converged === false) {
+        warnings.push(
+          `Didn't reach the target margin of error of ±${formatPercent(targetRme!)} before hitting its limits.`,
+        );
+      }
+      if (this.calibration) {
+        // Batched samples are timed together, so compare the time per sample
+        const { timerResolution } = this.calibration;
+        const sampleTime = (result.totalTime / result.samples.length) * (result.batchSize ?? 1);
+        if (sampleTime < RESOLUTION_WARNING_FACTOR * timerResolution) {
+          warnings.push(
+            `Mean time is within ${RESOLUTION_WARNING_FACTOR}x of the timer resolution (${formatTime(
+              timerResolution,
+            )} ms), so the results may not be reliable. Consider a larger batchSize.`,
+          );
+        }
+      }
+      if (warnings.length) result.warnings = warnings;
 
       // Calculate ops per second
-      const meanTime = result.totalTime / sampleSize;
+      const meanTime =
+        samples === result.samples
+          ? result.totalTime / sampleSize
+          : samples.reduce((acc, time) => acc + time, 0) / sampleSize;
       result.meanTime = meanTime;
       result.opsPerSecond = 1000 / meanTime;
 
@@ -449,17 +2819,483 @@ export class Benchmark<TTestName extends string & {} = string & {}, TValue = any
 
       // Calculate standard deviation
       const variance =
-        result.samples.reduce((acc: number, time: number) => {
+        samples.reduce((acc: number, time: number) => {
           const diff = time - meanTime;
           return acc + diff * diff;
         }, 0) / degreesOfFreedom;
       result.stdDeviation = Math.sqrt(variance);
+      result.coefficientOfVariation = result.stdDeviation / meanTime;
+
+      // Calculate margin of error at the requested confidence level
+      result.confidence = confidence;
+      if (estimator === "bootstrap") {
+        const intervals = getBootstrapIntervals(
+          samples === result.samples ? sorted : samples.toSorted((a, b) => a - b),
+          { confidence, resamples: bootstrapResamples, random },
+        );
+        result.meanInterval = intervals.mean;
+        result.medianInterval = intervals.median;
+        // Percentile intervals can be asymmetric, so use the half-width
+        result.marginOfError = (intervals.mean.upper - intervals.mean.lower) / 2;
+      } else {
+        const criticalTValue = getTCritical(degreesOfFreedom, confidence);
+        result.marginOfError = criticalTValue * (result.stdDeviation / Math.sqrt(sampleSize));
+        result.meanInterval = {
+          lower: meanTime - result.marginOfError,
+          upper: meanTime + result.marginOfError,
+        };
+      }
+    }
+
+    if (significanceTest !== "none") {
+      this.#compareResults(includedSamples, {
+        method: significanceTest,
+        alpha: 1 - confidence,
+      });
+    }
+
+    this.#calculateRelativePerformance(includedSamples, { confidence, baselineTest });
+  }
+
+  /**
+   * Calculate each test's speedup relative to the baseline test, with a
+   * confidence interval propagated from both tests' standard errors.
+   * @see https://en.wikipedia.org/wiki/Propagation_of_uncertainty#Example_formulae
+   */
+  #calculateRelativePerformance(
+    includedSamples: Map<TestResult, number[]>,
+    { confidence, baselineTest }: { confidence: number; baselineTest?: string },
+  ) {
+    const measured = this.results.filter((result) => result.meanTime);
+    const baseline = baselineTest
+      ? measured.find(({ name }) => name === baselineTest)
+      : measured.toSorted((a, b) => a.meanTime! - b.meanTime!)[0];
+    if (!baseline || measured.length < 2) return;
+
+    const getError = (result: TestResult) =>
+      getRelativeMeanError(
+        (result.stdDeviation ?? 0) ** 2,
+        includedSamples.get(result)!.length,
+        result.meanTime!,
+      );
+    const baselineError = getError(baseline);
+
+    for (const result of measured) {
+      const speedup = baseline.meanTime! / result.meanTime!;
+      result.relative = {
+        baseline: baseline.name,
+        speedup,
+        marginOfError:
+          result === baseline
+            ? 0
+            : getRatioMargin(speedup, getError(result), baselineError, confidence),
+      };
+    }
+  }
+
+  /**
+   * Compare each test to the fastest one and sort them into groups of
+   * statistically indistinguishable tests.
+   */
+  #compareResults(
+    includedSamples: Map<TestResult, number[]>,
+    { method, alpha }: { method: SignificanceTest; alpha: number },
+  ) {
+    const ranked = this.results
+      .filter((result) => (includedSamples.get(result)?.length ?? 0) > 1)
+      .sort((a, b) => a.meanTime! - b.meanTime!);
+    const fastest = ranked[0];
+    if (ranked.length < 2 || !fastest) return;
+
+    const compare = (a: TestResult, b: TestResult) => {
+      const samplesA = includedSamples.get(a)!;
+      const samplesB = includedSamples.get(b)!;
+      return method === "welch"
+        ? welchTTest(samplesA, samplesB)
+        : mannWhitneyUTest(samplesA, samplesB);
+    };
+
+    // Each group starts with the fastest remaining test and takes every test
+    // that isn't significantly slower than it.
+    const groups = new Map<TestResult, number>();
+    let remaining: TestResult[] = ranked;
+    for (let group = 1; remaining.length; group++) {
+      const leader = remaining[0]!;
+      groups.set(leader, group);
+      remaining = remaining.slice(1).filter((result) => {
+        if (compare(result, leader).pValue < alpha) return true;
+        groups.set(result, group);
+        return false;
+      });
+    }
+
+    for (const result of ranked) {
+      const { pValue, effectSize } =
+        result === fastest ? { pValue: 1, effectSize: 0 } : compare(result, fastest);
+      result.comparison = {
+        method,
+        baseline: fastest.name,
+        pValue,
+        effectSize,
+        significant: pValue < alpha,
+        group: groups.get(result)!,
+      };
+    }
+  }
+}
+
+// How many multiples of the timer resolution a test's mean time must be to be
+// measured reliably.
+const RESOLUTION_WARNING_FACTOR = 10;
+
+// The default time cap for each test when running until a target relative
+// margin of error.
+const DEFAULT_ADAPTIVE_TIME = 5000;
+
+// How many multiples of the timing overhead or timer resolution (whichever is
+// larger) an automatically sized batch must take.
+const AUTO_BATCH_FACTOR = 100;
+
+// The largest batch size to choose automatically.
+const MAX_AUTO_BATCH_SIZE = 2 ** 20;
+
+// The default time cap for warming up each test with `preheat: 'auto'`.
+const DEFAULT_PREHEAT_TIME = 1000;
+
+// The most samples to warm up each test with `preheat: 'auto'`.
+const MAX_WARMUP_SAMPLES = 10_000;
+
+// How often to sample the event loop delay with `eventLoopDelay: true`, in
+// milliseconds. This is the smallest resolution `monitorEventLoopDelay` takes.
+const EVENT_LOOP_RESOLUTION = 1;
+
+// The fewest calls to measure retained memory over, since a single garbage
+// collection can be off by more than a small allocation.
+const MIN_RETAINED_CALLS = 100;
+
+function cloneValue<V>(value: V): V {
+  return value && typeof value === "object" ? structuredClone(value) : value;
+}
+
+/**
+ * Get a factory for the values passed to test functions, applying the clone
+ * policy to each value.
+ */
+function getValueFactory<V>(value: V | ValueFactory<V>, clone?: ClonePolicy<V>): ValueFactory<V> {
+  const isFactory = typeof value === "function";
+  const policy = clone ?? (isFactory ? false : "structured");
+  const copy = policy === "structured" ? cloneValue : policy || undefined;
+  if (isFactory) {
+    const factory = value as ValueFactory<V>;
+    return copy ? (context) => copy(factory(context)) : factory;
+  }
+  return copy ? () => copy(value) : () => value;
+}
+
+function compactHooks(hooks: (Hook | undefined)[]): Hook[] {
+  return hooks.filter((hook): hook is Hook => !!hook);
+}
+
+// Resolved by an interrupted sample in place of the test's result
+const TIMED_OUT = Symbol("timed out");
+const ABORTED = Symbol("aborted");
+
+interface Interrupt {
+  promise: Promise<typeof TIMED_OUT | typeof ABORTED>;
+  cancel: () => void;
+}
+
+/**
+ * Create a promise that resolves once a sample runs longer than a timeout or
+ * the run is aborted, so pending samples can be abandoned.
+ */
+function createInterrupt(timeout: number, signal?: AbortSignal): Interrupt | undefined {
+  if (timeout === Infinity && !signal) return;
+
+  let cancel = () => {};
+  const promise = new Promise<typeof TIMED_OUT | typeof ABORTED>((resolve) => {
+    const timer = timeout < Infinity ? setTimeout(() => resolve(TIMED_OUT), timeout) : undefined;
+    const handleAbort = () => resolve(ABORTED);
+    if (signal?.aborted) handleAbort();
+    signal?.addEventListener("abort", handleAbort, { once: true });
+    cancel = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", handleAbort);
+    };
+  });
 
-      // Calculate margin of error (95% confidence interval)
-      const criticalTValue = getTCritical95(degreesOfFreedom);
-      result.marginOfError = criticalTValue * (result.stdDeviation / Math.sqrt(sampleSize));
+  return { promise, cancel };
+}
+
+/**
+ * Time calls to a test function with each value, stopping early if the sample
+ * is interrupted.
+ * @returns The result of the last call, or the interruption, and the elapsed
+ * time in milliseconds.
+ */
+async function timeCalls(
+  fn: TestFunction,
+  values: unknown[],
+  params: Params,
+  interrupt?: Interrupt,
+): Promise<{ result: unknown; elapsed: number }> {
+  let result: unknown;
+  const start = performance.now();
+  // Only await promises so sync functions don't pay for a microtask or a race
+  for (const value of values) {
+    result = fn(value, params);
+    if (result instanceof Promise) {
+      result = await (interrupt ? Promise.race([result, interrupt.promise]) : result);
+      if (result === TIMED_OUT || result === ABORTED) break;
     }
   }
+  return { result, elapsed: performance.now() - start };
+}
+
+async function runHooks(hooks: (Hook | undefined)[], params: Params) {
+  for (const hook of hooks) await hook?.(params);
+}
+
+/**
+ * Get every combination of values in a parameter matrix, varying the last
+ * parameter fastest.
+ */
+function getCombinations(matrix: ParamMatrix): Params[] {
+  let combinations: Params[] = [{}];
+  for (const [key, values] of Object.entries(matrix)) {
+    combinations = combinations.flatMap((params) =>
+      values.map((value) => ({ ...params, [key]: value })),
+    );
+  }
+  return combinations;
+}
+
+/**
+ * Compare a test to the same test in a baseline run, with the margin of error
+ * of the change propagated from both runs' standard errors.
+ * @see https://en.wikipedia.org/wiki/Propagation_of_uncertainty#Example_formulae
+ */
+function compareToBaseline(
+  result: TestResult,
+  baseline: TestResult,
+  {
+    confidence,
+    method,
+    threshold,
+  }: { confidence: number; method: SignificanceTest; threshold?: number },
+): BaselineComparison {
+  const samples = getIncludedSamples(result);
+  const baselineSamples = getIncludedSamples(baseline);
+  const meanTime = getMean(samples);
+  const baselineTime = getMean(baselineSamples);
+  const ratio = meanTime / baselineTime;
+
+  const getError = (values: number[], mean: number) =>
+    getRelativeMeanError(
+      values.length > 1
+        ? values.reduce((acc, value) => acc + (value - mean) ** 2, 0) / (values.length - 1)
+        : 0,
+      values.length,
+      mean,
+    );
+  const error = getError(samples, meanTime);
+  const baselineError = getError(baselineSamples, baselineTime);
+  const marginOfError = getRatioMargin(ratio, error, baselineError, confidence);
+
+  let pValue: number | undefined;
+  let meanInterval: ConfidenceInterval | undefined;
+  let baselineInterval: ConfidenceInterval | undefined;
+  if (samples.length > 1 && baselineSamples.length > 1) {
+    meanInterval = getMeanInterval(meanTime, error, confidence);
+    baselineInterval = getMeanInterval(baselineTime, baselineError, confidence);
+    pValue =
+      method === "welch"
+        ? welchTTest(samples, baselineSamples).pValue
+        : mannWhitneyUTest(samples, baselineSamples).pValue;
+  }
+
+  // Without enough samples for a significance test, there's no telling a
+  // change from noise
+  const significant = pValue !== undefined && pValue < 1 - confidence;
+  const change = ratio - 1;
+
+  return {
+    name: result.name,
+    ...(result.params && { params: result.params }),
+    baselineTime,
+    meanTime,
+    change,
+    marginOfError,
+    pValue,
+    verdict: significant ? (ratio < 1 ? "faster" : "slower") : "unchanged",
+    meanInterval,
+    baselineInterval,
+    ...(threshold !== undefined && {
+      threshold,
+      // Noise can push the change over the threshold, so only count it when
+      // the runs are clearly apart
+      regression:
+        change > threshold &&
+        !!meanInterval &&
+        !!baselineInterval &&
+        meanInterval.lower > baselineInterval.upper,
+    }),
+  };
+}
+
+/**
+ * Get the confidence interval for the mean of some samples from its relative
+ * error.
+ */
+function getMeanInterval(
+  mean: number,
+  { variance, size }: MeanError,
+  confidence: number,
+): ConfidenceInterval {
+  const marginOfError = getTCritical(size - 1, confidence) * mean * Math.sqrt(variance);
+  return { lower: mean - marginOfError, upper: mean + marginOfError };
+}
+
+/**
+ * Get the samples a test's statistics were calculated from, leaving out the
+ * outliers if they were excluded.
+ */
+function getIncludedSamples({ samples, outliers }: TestResult): number[] {
+  if (!outliers?.excluded) return samples;
+  const { mild } = getOutlierFences(
+    samples.toSorted((a, b) => a - b),
+    outliers.method,
+  );
+  return samples.filter((time) => time >= mild[0] && time <= mild[1]);
+}
+
+/**
+ * Leave out options JSON can't represent, like the default `maxSamples:
+ * Infinity`, which would be written as `null`. Leaving them out means the same
+ * as their defaults.
+ */
+function omitNonFinite(options: ExportedRunOptions): ExportedRunOptions {
+  return Object.fromEntries(
+    Object.entries(options).filter(
+      ([, value]) => typeof value !== "number" || Number.isFinite(value),
+    ),
+  );
+}
+
+function formatParams(params: Params) {
+  return Object.entries(params)
+    .map(([key, value]) => `${key}=${String(value)}`)
+    .join(", ");
+}
+
+/**
+ * Summarize the delays recorded by an event loop delay histogram, or return
+ * undefined if it didn't record any.
+ */
+function getEventLoopDelay(histogram: IntervalHistogram): EventLoopDelay | undefined {
+  if (!histogram.count) return;
+
+  // The histogram records nanoseconds
+  const toMs = (nanoseconds: number) => nanoseconds / 1e6;
+  return {
+    count: histogram.count,
+    min: toMs(histogram.min),
+    max: toMs(histogram.max),
+    mean: toMs(histogram.mean),
+    stdDeviation: toMs(histogram.stddev),
+    median: toMs(histogram.percentile(50)),
+    percentiles: {
+      p75: toMs(histogram.percentile(75)),
+      p90: toMs(histogram.percentile(90)),
+      p95: toMs(histogram.percentile(95)),
+      p99: toMs(histogram.percentile(99)),
+      p999: toMs(histogram.percentile(99.9)),
+    },
+  };
+}
+
+function getPercentiles(sorted: number[]): Percentiles {
+  return {
+    p75: getPercentile(sorted, 0.75),
+    p90: getPercentile(sorted, 0.9),
+    p95: getPercentile(sorted, 0.95),
+    p99: getPercentile(sorted, 0.99),
+    p999: getPercentile(sorted, 0.999),
+  };
+}
+
+function getMean(values: number[]) {
+  return values.reduce((acc, value) => acc + value, 0) / values.length;
+}
+
+function getMeanTime(result: TestResult) {
+  if (!result.samples.length) return Infinity;
+  return result.meanTime ?? result.totalTime / result.samples.length;
+}
+
+function formatTestLabel({ name, params }: Pick<TestResult, "name" | "params">) {
+  const label = Formatter.bold(name);
+  return params && Object.keys(params).length
+    ? `${label} ${Formatter.dim(`(${formatParams(params)})`)}`
+    : label;
+}
+
+function formatPValue(pValue: number) {
+  if (pValue < 0.001) return "<0.001";
+  return pValue.toLocaleString(undefined, {
+    minimumFractionDigits: 3,
+    maximumFractionDigits: 3,
+  });
+}
+
+function formatRelative({ speedup, marginOfError }: RelativePerformance) {
+  // Show slower tests as a slowdown factor, scaling the margin of error with it
+  const isFaster = speedup >= 1;
+  const factor = isFaster ? speedup : 1 / speedup;
+  const error = (marginOfError / speedup) * factor;
+  const format = (value: number) =>
+    value.toLocaleString(undefined, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+
+  return `${format(factor)}x ${isFaster ? "faster" : "slower"} ± ${format(error)}`;
+}
+
+/**
+ * Format a time or rate for a table with a fixed 6 decimal places, or `-` if
+ * it's missing.
+ */
+function formatFixed(value: number | undefined) {
+  return value === undefined
+    ? "-"
+    : value.toLocaleString(undefined, {
+        minimumFractionDigits: 6,
+        maximumFractionDigits: 6,
+      });
+}
+
+function formatTime(time: number) {
+  return time.toLocaleString(undefined, {
+    maximumSignificantDigits: 3,
+  });
+}
+
+function formatBytes(bytes: number) {
+  const units = ["B", "KB", "MB", "GB"];
+  let unit = 0;
+  while (bytes >= 1024 && unit < units.length - 1) {
+    bytes /= 1024;
+    unit++;
+  }
+  return `${bytes.toLocaleString(undefined, { maximumSignificantDigits: 3 })} ${units[unit]}`;
+}
+
+function formatGCCount({ count, kinds }: GCStats) {
+  const counts = Object.entries(kinds)
+    .filter(([, kindCount]) => kindCount)
+    .map(([kind, kindCount]) => `${kindCount.toLocaleString()} ${kind}`);
+  return counts.length ? `${count.toLocaleString()} (${counts.join(", ")})` : "0";
 }
 
 /**
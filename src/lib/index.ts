@@ -1,14 +1,48 @@
 export {
+  type BaselineComparison,
   Benchmark,
+  type BenchmarkData,
+  type BenchmarkDataV1,
   benchmark,
+  type CalibrateOptions,
+  type Calibration,
+  type ClonePolicy,
+  type CompareOptions,
+  type Comparison,
+  type CpuUsage,
+  type Estimator,
+  type EventLoopDelay,
+  type ExportedRunOptions,
+  type GCStats,
+  type Hook,
+  type MemoryUsage,
+  type OutlierSummary,
+  type ParamMatrix,
+  type Params,
+  type Percentiles,
   type PreheatArgs,
   type PreheatOptions,
+  type PrintOptions,
   type RunArgs,
   type RunOptions,
+  type SignificanceTest,
   type TestFunction,
   type TestFunctions,
+  type TestHooks,
+  type TestOptions,
   type TestResult,
+  type TestSource,
+  type TestStatus,
+  type Throughput,
+  type ValueContext,
+  type ValueFactory,
+  type Verdict,
+  type Warmup,
 } from "#src/lib/Benchmark";
+export type { Schedule } from "#src/lib/utils/createScheduler";
+export type { ConfidenceInterval } from "#src/lib/utils/getBootstrapIntervals";
+export type { Environment } from "#src/lib/utils/getEnvironment";
+export type { OutlierFences, OutlierMethod } from "#src/lib/utils/getOutlierFences";
 export {
   Formatter,
   Logger,
@@ -16,3 +50,6 @@ export {
   type TextFormatter,
 } from "#src/lib/utils/Logger";
 export { loadModule } from "#src/lib/utils/loadModule";
+export { loadResults, RESULTS_SCHEMA_VERSION } from "#src/lib/utils/loadResults";
+export type { GCKind } from "#src/lib/utils/observeGC";
+export type { Isolation } from "#src/lib/utils/runIsolated";
@@ -0,0 +1,109 @@
+// The entry point of the worker threads and child processes that tests are run
+// in when isolated. It receives an `IsolatedTest`, runs it with a `Benchmark`
+// of its own, and streams the samples back to the parent.
+
+import { parentPort, workerData } from "node:worker_threads";
+import { Benchmark } from "#src/lib/Benchmark";
+import { loadModule } from "#src/lib/utils/loadModule";
+import type { IsolatedMessage, IsolatedTest } from "#src/lib/utils/runIsolated";
+
+// The number of samples to send to the parent at a time.
+const SAMPLE_CHUNK_SIZE = 1000;
+
+function send(message: IsolatedMessage): Promise<void> {
+  if (parentPort) {
+    parentPort.postMessage(message);
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    process.send!(message, undefined, {}, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+const test: IsolatedTest = parentPort
+  ? workerData
+  : await new Promise((resolve) => process.once("message", resolve));
+
+try {
+  const moduleExports = await loadModule(test.module);
+  const fn =
+    test.export === "default"
+      ? (moduleExports.default ?? moduleExports)
+      : moduleExports[test.export];
+  if (typeof fn !== "function") {
+    throw new Error(`No function exported as ${test.export} from ${test.module}`);
+  }
+
+  const bench = new Benchmark(test.name);
+  if (test.params) {
+    bench.params(
+      Object.fromEntries(Object.entries(test.params).map(([key, value]) => [key, [value]])),
+    );
+  }
+  const { setup, teardown } = moduleExports;
+  bench.test(test.name, fn, {
+    beforeAll: typeof setup === "function" ? setup : undefined,
+    afterAll: typeof teardown === "function" ? teardown : undefined,
+  });
+
+  let samples: number[] = [];
+  await bench.run(test.iterations, {
+    ...test.options,
+    verbosity: 0,
+    onSample: (_, time) => {
+      samples.push(time);
+      if (samples.length >= SAMPLE_CHUNK_SIZE) {
+        void send({ type: "samples", samples });
+        samples = [];
+      }
+    },
+  });
+  if (samples.length) {
+    await send({ type: "samples", samples });
+  }
+
+  // Failed runs are logged and don't get a status
+  const [result] = bench.results;
+  if (!result?.status) {
+    throw new Error(`${test.name} failed`);
+  }
+  if (result.status === "failed") {
+    throw new Error(result.error);
+  }
+
+  const {
+    batchSize,
+    overhead,
+    converged,
+    warmup,
+    memory,
+    gc,
+    cpu,
+    throughput,
+    eventLoopDelay,
+    status,
+  } = result;
+  await send({
+    type: "done",
+    result: {
+      batchSize,
+      overhead,
+      converged,
+      warmup,
+      memory,
+      gc,
+      cpu,
+      throughput,
+      eventLoopDelay,
+      status,
+    },
+  });
+} catch (error) {
+  await send(
+    error instanceof Error
+      ? { type: "error", message: error.message, stack: error.stack }
+      : { type: "error", message: String(error) },
+  );
+}
+
+if (!parentPort) process.disconnect?.();
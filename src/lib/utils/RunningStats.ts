@@ -0,0 +1,71 @@
+import { getTCritical } from "#src/lib/utils/getTCritical";
+
+/**
+ * Running statistics for a stream of samples, updated in constant time as each
+ * sample arrives using Welford's algorithm.
+ * @see https://en.wikipedia.org/wiki/Algorithms_for_calculating_variance#Welford's_online_algorithm
+ */
+export class RunningStats {
+  /**
+   * The number of samples seen.
+   */
+  count = 0;
+
+  /**
+   * The mean of the samples seen.
+   */
+  mean = 0;
+
+  // Sum of squared differences from the mean
+  #m2 = 0;
+
+  // The critical t-value is expensive to calculate, so it's cached and only
+  // recalculated once the degrees of freedom grow by 10%. The cached value is
+  // always the larger one, so the margin of error is never underestimated.
+  #tCritical = 0;
+  #tCriticalDf = 0;
+  #tCriticalConfidence = 0;
+
+  /**
+   * Add a sample.
+   */
+  push(value: number): this {
+    this.count++;
+    const delta = value - this.mean;
+    this.mean += delta / this.count;
+    this.#m2 += delta * (value - this.mean);
+    return this;
+  }
+
+  /**
+   * The sample variance, with Bessel's correction.
+   */
+  get variance(): number {
+    return this.count > 1 ? this.#m2 / (this.count - 1) : 0;
+  }
+
+  /**
+   * The sample standard deviation.
+   */
+  get stdDeviation(): number {
+    return Math.sqrt(this.variance);
+  }
+
+  /**
+   * Get the margin of error of the mean relative to the mean.
+   * @param confidence - The confidence level, between `0` and `1`.
+   */
+  getRelativeMarginOfError(confidence: number): number {
+    if (this.count < 2) return Infinity;
+    if (!this.mean) return this.variance ? Infinity : 0;
+
+    const df = this.count - 1;
+    if (confidence !== this.#tCriticalConfidence || df >= this.#tCriticalDf * 1.1) {
+      this.#tCritical = getTCritical(df, confidence);
+      this.#tCriticalDf = df;
+      this.#tCriticalConfidence = confidence;
+    }
+
+    return (this.#tCritical * this.stdDeviation) / Math.sqrt(this.count) / Math.abs(this.mean);
+  }
+}
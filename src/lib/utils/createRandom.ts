@@ -0,0 +1,26 @@
+/**
+ * Create a seeded pseudo-random number generator that returns numbers in the
+ * range [0, 1), like `Math.random()`, but reproducibly.
+ *
+ * Uses the Mulberry32 algorithm, which is fast and plenty random for
+ * resampling and scheduling, but not cryptographically secure.
+ * @param seed - A 32-bit integer seed.
+ * @see https://gist.github.com/tommyettinger/46a874533244883189143505d203312c
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a random 32-bit integer seed.
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
@@ -0,0 +1,85 @@
+/**
+ * The order tests are run in.
+ * - `'random'` - Pick a random test for every sample, so no test consistently
+ *   runs before or after another.
+ * - `'round-robin'` - Take turns in the order the tests were added.
+ * - `'blocked'` - Run all samples of a test before moving on to the next.
+ * - `'latin-square'` - Take turns in rounds where each test runs once, rotating
+ *   the order so each test runs in each position equally often. The rotations
+ *   are shuffled.
+ */
+export type Schedule = "random" | "round-robin" | "blocked" | "latin-square";
+
+/**
+ * Picks the position in the queue of the test to run next.
+ */
+export type Scheduler = (queue: readonly { index: number }[]) => number;
+
+/**
+ * Create a scheduler that picks which test in a queue of unfinished tests to
+ * run next. Tests are identified by their `index` among all tests, and the
+ * queue must stay in index order as finished tests are removed.
+ * @param schedule - The scheduling strategy.
+ * @param testCount - The total number of tests.
+ * @param random - A random number generator for the randomized strategies.
+ */
+export function createScheduler(
+  schedule: Schedule,
+  testCount: number,
+  random: () => number,
+): Scheduler {
+  switch (schedule) {
+    case "random":
+      return (queue) => Math.floor(random() * queue.length);
+
+    case "round-robin": {
+      let last = -1;
+      return (queue) => {
+        const next = Math.max(
+          queue.findIndex(({ index }) => index > last),
+          0,
+        );
+        last = queue[next]!.index;
+        return next;
+      };
+    }
+
+    case "blocked":
+      return () => 0;
+
+    case "latin-square": {
+      // Each round is a row of a cyclic Latin square, with the rows visited in
+      // a new random order every `testCount` rounds
+      let rows: number[] = [];
+      let round: number[] = [];
+      return (queue) => {
+        while (true) {
+          while (!round.length) {
+            if (!rows.length) rows = shuffle(testCount, random);
+            const row = rows.pop()!;
+            round = Array.from({ length: testCount }, (_, i) => (row + i) % testCount);
+          }
+          const index = round.shift()!;
+          const next = queue.findIndex((test) => test.index === index);
+          if (next !== -1) return next;
+        }
+      };
+    }
+
+    default:
+      throw new Error(`Unknown schedule: ${schedule}`);
+  }
+}
+
+/**
+ * Get the numbers from `0` to `length - 1` in a random order.
+ */
+function shuffle(length: number, random: () => number): number[] {
+  const values = Array.from({ length }, (_, i) => i);
+  // Fisher-Yates shuffle
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [values[i], values[j]] = [values[j]!, values[i]!];
+  }
+  return values;
+}
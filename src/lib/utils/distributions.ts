@@ -0,0 +1,255 @@
+// Probability distribution functions used for confidence intervals and
+// significance tests.
+//
+// The special functions follow the approaches in Numerical Recipes (Press et
+// al., 3rd ed., §6.1-6.4) and are accurate to roughly double precision for the
+// parameter ranges a benchmark produces.
+
+const MAX_ITERATIONS = 300;
+const EPSILON = 1e-15;
+const TINY = 1e-300;
+
+// Lanczos approximation coefficients (g = 7, n = 9)
+// see: https://en.wikipedia.org/wiki/Lanczos_approximation
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+/**
+ * The natural log of the gamma function, `ln(Γ(x))`, for `x > 0`.
+ */
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+
+  x -= 1;
+  let sum = LANCZOS[0]!;
+  for (let i = 1; i < LANCZOS.length; i++) {
+    sum += LANCZOS[i]! / (x + i);
+  }
+  const t = x + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * The regularized upper incomplete gamma function, `Q(a, x) = 1 - P(a, x)`.
+ */
+export function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  if (x < a + 1) return 1 - gammaSeries(a, x);
+  return gammaContinuedFraction(a, x);
+}
+
+function gammaSeries(a: number, x: number): number {
+  let term = 1 / a;
+  let sum = term;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+}
+
+function gammaContinuedFraction(a: number, x: number): number {
+  // Modified Lentz's method
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+/**
+ * The regularized incomplete beta function, `Iₓ(a, b)`.
+ */
+export function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const logFront =
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log1p(-x);
+
+  // The continued fraction converges quickly on this side of the mean; use the
+  // symmetry relation on the other.
+  if (x < (a + 1) / (a + b + 2)) {
+    return (Math.exp(logFront) * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (Math.exp(logFront) * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  // Modified Lentz's method
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m < MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+
+    // Even step
+    let an = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+    d = 1 + an * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    // Odd step
+    an = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+    d = 1 + an * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return h;
+}
+
+// Normal Distribution //
+
+/**
+ * The cumulative distribution function of the standard normal distribution.
+ */
+export function normalCdf(z: number): number {
+  // Φ(z) = erfc(-z/√2) / 2, and erfc(x) = Q(1/2, x²) for x ≥ 0
+  const x = (z * z) / 2;
+  const tail = regularizedGammaQ(0.5, x) / 2;
+  return z < 0 ? tail : 1 - tail;
+}
+
+// Coefficients for Acklam's rational approximation of the normal quantile
+// see: https://web.archive.org/web/20151030215612/http://home.online.no/~pjacklam/notes/invnorm/
+const ACKLAM_A = [
+  -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2,
+  -3.066479806614716e1, 2.506628277459239,
+];
+const ACKLAM_B = [
+  -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1,
+  -1.328068155288572e1,
+];
+const ACKLAM_C = [
+  -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734,
+  4.374664141464968, 2.938163982698783,
+];
+const ACKLAM_D = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+
+/**
+ * The quantile function (inverse CDF) of the standard normal distribution.
+ * @param p - The cumulative probability, between `0` and `1`.
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const [a0, a1, a2, a3, a4, a5] = ACKLAM_A as [number, number, number, number, number, number];
+  const [b0, b1, b2, b3, b4] = ACKLAM_B as [number, number, number, number, number];
+  const [c0, c1, c2, c3, c4, c5] = ACKLAM_C as [number, number, number, number, number, number];
+  const [d0, d1, d2, d3] = ACKLAM_D as [number, number, number, number];
+
+  let z: number;
+  if (p < 0.02425) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    z =
+      (((((c0 * q + c1) * q + c2) * q + c3) * q + c4) * q + c5) /
+      ((((d0 * q + d1) * q + d2) * q + d3) * q + 1);
+  } else if (p > 1 - 0.02425) {
+    const q = Math.sqrt(-2 * Math.log1p(-p));
+    z =
+      -(((((c0 * q + c1) * q + c2) * q + c3) * q + c4) * q + c5) /
+      ((((d0 * q + d1) * q + d2) * q + d3) * q + 1);
+  } else {
+    const q = p - 0.5;
+    const r = q * q;
+    z =
+      ((((((a0 * r + a1) * r + a2) * r + a3) * r + a4) * r + a5) * q) /
+      (((((b0 * r + b1) * r + b2) * r + b3) * r + b4) * r + 1);
+  }
+
+  // One step of Halley's method brings the approximation to full precision
+  const error = normalCdf(z) - p;
+  const u = error * Math.sqrt(2 * Math.PI) * Math.exp((z * z) / 2);
+  return z - u / (1 + (z * u) / 2);
+}
+
+// Student's t-Distribution //
+
+/**
+ * The probability density function of Student's t-distribution.
+ * @param t - The t-statistic.
+ * @param df - The degrees of freedom (may be fractional).
+ */
+export function studentTPdf(t: number, df: number): number {
+  return Math.exp(
+    logGamma((df + 1) / 2) -
+      logGamma(df / 2) -
+      0.5 * Math.log(df * Math.PI) -
+      ((df + 1) / 2) * Math.log1p((t * t) / df),
+  );
+}
+
+/**
+ * The cumulative distribution function of Student's t-distribution.
+ * @param t - The t-statistic.
+ * @param df - The degrees of freedom (may be fractional).
+ */
+export function studentTCdf(t: number, df: number): number {
+  const tail = studentTTail(Math.abs(t), df);
+  return t < 0 ? tail : 1 - tail;
+}
+
+/**
+ * The quantile function (inverse CDF) of Student's t-distribution.
+ * @param p - The cumulative probability, between `0` and `1`.
+ * @param df - The degrees of freedom (may be fractional).
+ */
+export function studentTQuantile(p: number, df: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p === 0.5) return 0;
+  if (p < 0.5) return -studentTQuantile(1 - p, df);
+  if (!Number.isFinite(df)) return normalQuantile(p);
+
+  // The upper tail is convex and decreasing for t > 0, and the normal quantile
+  // is always below the t quantile, so Newton's method converges monotonically
+  // from there.
+  const target = 1 - p;
+  let t = normalQuantile(p);
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const step = (studentTTail(t, df) - target) / studentTPdf(t, df);
+    t += step;
+    if (Math.abs(step) <= 1e-12 * Math.max(1, t)) break;
+  }
+  return t;
+}
+
+/**
+ * The upper tail probability, `P(T > t)`, for `t ≥ 0`.
+ */
+function studentTTail(t: number, df: number): number {
+  return regularizedBeta(df / (df + t * t), df / 2, 0.5) / 2;
+}
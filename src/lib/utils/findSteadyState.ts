@@ -0,0 +1,71 @@
+export interface SteadyStateOptions {
+  /**
+   * The number of samples in each window.
+   *
+   * @default 20
+   */
+  windowSize?: number;
+  /**
+   * The number of consecutive windows that must agree.
+   *
+   * @default 3
+   */
+  windows?: number;
+  /**
+   * The largest relative difference between the windows' means.
+   *
+   * @default 0.05
+   */
+  meanTolerance?: number;
+  /**
+   * The largest relative difference between the windows' standard
+   * deviations, which are much noisier than the means.
+   *
+   * @default 0.5
+   */
+  spreadTolerance?: number;
+}
+
+/**
+ * Check whether the most recent samples have reached a steady state, where
+ * the mean and standard deviation of the last few windows of samples are
+ * within a tolerance of each other.
+ * @param samples - The samples so far, in the order they were taken.
+ * @param options - Options for the windows and tolerances.
+ * @returns The index of the first sample of the steady windows, or undefined
+ * if the samples haven't stabilized.
+ */
+export function findSteadyState(
+  samples: readonly number[],
+  {
+    windowSize = 20,
+    windows = 3,
+    meanTolerance = 0.05,
+    spreadTolerance = 0.5,
+  }: SteadyStateOptions = {},
+): number | undefined {
+  const start = samples.length - windowSize * windows;
+  if (start < 0) return;
+
+  const means: number[] = [];
+  const stdDeviations: number[] = [];
+  for (let i = start; i < samples.length; i += windowSize) {
+    const window = samples.slice(i, i + windowSize);
+    const mean = window.reduce((sum, value) => sum + value, 0) / windowSize;
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (windowSize - 1);
+    means.push(mean);
+    stdDeviations.push(Math.sqrt(variance));
+  }
+
+  if (getRelativeRange(means) > meanTolerance) return;
+  if (getRelativeRange(stdDeviations) > spreadTolerance) return;
+  return start;
+}
+
+/**
+ * The range of some values relative to the largest one.
+ */
+function getRelativeRange(values: number[]): number {
+  const max = Math.max(...values);
+  return max ? (max - Math.min(...values)) / max : 0;
+}
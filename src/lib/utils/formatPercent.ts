@@ -0,0 +1,10 @@
+/**
+ * Format a ratio as a percentage with up to two decimal places in the
+ * current locale, e.g. `0.1234` as `12.34%`.
+ */
+export function formatPercent(value: number): string {
+  return value.toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+    style: "percent",
+  });
+}
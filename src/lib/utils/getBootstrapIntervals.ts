@@ -0,0 +1,85 @@
+import { getPercentile } from "#src/lib/utils/getPercentile";
+
+/**
+ * The bounds of a confidence interval.
+ */
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface BootstrapOptions {
+  /**
+   * The confidence level, between `0` and `1`.
+   */
+  confidence: number;
+  /**
+   * The number of resamples to draw.
+   */
+  resamples: number;
+  /**
+   * A function that returns random numbers in the range [0, 1).
+   */
+  random: () => number;
+}
+
+/**
+ * Get percentile bootstrap confidence intervals for the mean and median of a
+ * sample, which don't assume the sample mean is normally distributed.
+ * @param sorted - The sample values, sorted in ascending order.
+ * @param options - Options for the resampling.
+ * @see https://en.wikipedia.org/wiki/Bootstrapping_(statistics)
+ */
+export function getBootstrapIntervals(
+  sorted: readonly number[],
+  { confidence, resamples, random }: BootstrapOptions,
+): { mean: ConfidenceInterval; median: ConfidenceInterval } {
+  const n = sorted.length;
+  if (!n) {
+    throw new Error("Cannot bootstrap an empty sample");
+  }
+
+  const means = new Float64Array(resamples);
+  const medians = new Float64Array(resamples);
+  const counts = new Uint32Array(n);
+  const lowerMiddle = Math.floor((n - 1) / 2);
+  const upperMiddle = Math.ceil((n - 1) / 2);
+
+  for (let r = 0; r < resamples; r++) {
+    // Tally how many times each index is drawn. Since the sample is sorted, the
+    // median of the drawn values can be found by walking the tallies instead of
+    // sorting each resample.
+    counts.fill(0);
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      const index = Math.floor(random() * n);
+      counts[index]!++;
+      sum += sorted[index]!;
+    }
+    means[r] = sum / n;
+
+    let seen = 0;
+    let lowerValue: number | undefined;
+    for (let i = 0; i < n; i++) {
+      seen += counts[i]!;
+      if (lowerValue === undefined && seen > lowerMiddle) lowerValue = sorted[i]!;
+      if (seen > upperMiddle) {
+        medians[r] = (lowerValue! + sorted[i]!) / 2;
+        break;
+      }
+    }
+  }
+
+  means.sort();
+  medians.sort();
+  const alpha = 1 - confidence;
+  const toInterval = (values: Float64Array): ConfidenceInterval => ({
+    lower: getPercentile(values, alpha / 2),
+    upper: getPercentile(values, 1 - alpha / 2),
+  });
+
+  return {
+    mean: toInterval(means),
+    median: toInterval(medians),
+  };
+}
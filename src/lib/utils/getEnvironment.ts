@@ -0,0 +1,84 @@
+import { execFileSync } from "node:child_process";
+import { arch, availableParallelism, cpus, platform, release, totalmem } from "node:os";
+
+/**
+ * A fingerprint of the machine and runtime that produced a set of results.
+ */
+export interface Environment {
+  /**
+   * The Node.js version, e.g. `'v20.19.5'`.
+   */
+  nodeVersion: string;
+  /**
+   * The V8 version.
+   */
+  v8Version: string;
+  /**
+   * The operating system platform, e.g. `'linux'`.
+   */
+  platform: string;
+  /**
+   * The operating system release.
+   */
+  osRelease: string;
+  /**
+   * The CPU architecture, e.g. `'x64'`.
+   */
+  arch: string;
+  /**
+   * The model of the first CPU core.
+   */
+  cpuModel: string;
+  /**
+   * The number of CPU cores available to the process.
+   */
+  cpuCount: number;
+  /**
+   * The total system memory, in bytes.
+   */
+  totalMemory: number;
+  /**
+   * Whether garbage collection could be forced with `--expose-gc`, which the
+   * GC strategies need.
+   */
+  gcExposed: boolean;
+  /**
+   * The commit checked out in the working directory, if it's in a git
+   * repository.
+   */
+  gitCommit?: string;
+}
+
+/**
+ * Get a fingerprint of the current machine and runtime.
+ */
+export function getEnvironment(): Environment {
+  return {
+    nodeVersion: process.version,
+    v8Version: process.versions.v8,
+    platform: platform(),
+    osRelease: release(),
+    arch: arch(),
+    cpuModel: cpus()[0]?.model.trim() ?? "unknown",
+    cpuCount: availableParallelism(),
+    totalMemory: totalmem(),
+    gcExposed: typeof globalThis.gc === "function",
+    gitCommit: getGitCommit(),
+  };
+}
+
+function getGitCommit(): string | undefined {
+  try {
+    return execFileSync("git", ["rev-parse", "HEAD"], {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+      timeout: GIT_TIMEOUT,
+    }).trim();
+  } catch {
+    // Not a git repository, or git isn't installed
+    return;
+  }
+}
+
+// How long to wait for git to report the commit, in milliseconds.
+const GIT_TIMEOUT = 5000;
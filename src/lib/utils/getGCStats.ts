@@ -0,0 +1,44 @@
+import type { GCStats } from "#src/lib/Benchmark";
+import type { GCEvent } from "#src/lib/utils/observeGC";
+
+/**
+ * When each sample ran, on the `performance.now()` timeline, as the index of
+ * its test, its start and its end, one sample after another. Kept flat so
+ * recording a sample doesn't leave garbage that the GCs would be charged for.
+ */
+export type SampleSpans = number[];
+
+/**
+ * Total the GCs that started during each test's samples. GCs that started
+ * between samples are left out.
+ * @param events - The GCs recorded during the run.
+ * @param spans - When each sample ran, in order.
+ * @param testCount - The total number of tests.
+ */
+export function getGCStats(events: GCEvent[], spans: SampleSpans, testCount: number): GCStats[] {
+  const stats = Array.from(
+    { length: testCount },
+    (): GCStats => ({
+      count: 0,
+      kinds: { minor: 0, major: 0, incremental: 0, weakcb: 0 },
+      pauseTime: 0,
+    }),
+  );
+
+  // The offset of the current span in the flat spans
+  let span = 0;
+  for (const { kind, startTime, duration } of events.toSorted(
+    (a, b) => a.startTime - b.startTime,
+  )) {
+    while (span < spans.length && spans[span + 2]! < startTime) span += 3;
+    if (span === spans.length) break;
+    if (startTime < spans[span + 1]!) continue;
+
+    const test = stats[spans[span]!]!;
+    test.count++;
+    test.kinds[kind]++;
+    test.pauseTime += duration;
+  }
+
+  return stats;
+}
@@ -0,0 +1,64 @@
+import { getPercentile } from "#src/lib/utils/getPercentile";
+
+/**
+ * The method used to detect outliers.
+ * - `'tukey'` - Tukey's fences, 1.5 (mild) and 3 (severe) interquartile ranges
+ *   outside the quartiles.
+ * - `'mad'` - Modified z-scores based on the median absolute deviation, with
+ *   scores above 3.5 (mild) and 7 (severe) marked as outliers.
+ */
+export type OutlierMethod = "tukey" | "mad";
+
+/**
+ * The inclusive bounds outside of which a sample is considered an outlier.
+ */
+export interface OutlierFences {
+  mild: [lower: number, upper: number];
+  severe: [lower: number, upper: number];
+}
+
+// Scales the MAD to be a consistent estimator of the standard deviation for
+// normally distributed data: 1 / Φ⁻¹(3/4).
+// see: https://en.wikipedia.org/wiki/Median_absolute_deviation
+const MAD_SCALE = 1.482602218505602;
+
+// Scales the mean absolute deviation when the MAD is 0, which happens when
+// more than half of the samples are identical (common with coarse timers).
+// see: https://www.ibm.com/docs/en/cognos-analytics/12.0.0?topic=terms-modified-z-score
+const MEAN_AD_SCALE = 1.2533141373155001;
+
+/**
+ * Get the fences for detecting mild and severe outliers in a sample.
+ * @param sorted - The sample values, sorted in ascending order.
+ * @param method - The outlier detection method.
+ */
+export function getOutlierFences(sorted: readonly number[], method: OutlierMethod): OutlierFences {
+  switch (method) {
+    case "tukey": {
+      const q1 = getPercentile(sorted, 0.25);
+      const q3 = getPercentile(sorted, 0.75);
+      const iqr = q3 - q1;
+      return {
+        mild: [q1 - 1.5 * iqr, q3 + 1.5 * iqr],
+        severe: [q1 - 3 * iqr, q3 + 3 * iqr],
+      };
+    }
+
+    case "mad": {
+      const median = getPercentile(sorted, 0.5);
+      const deviations = sorted.map((value) => Math.abs(value - median)).sort((a, b) => a - b);
+      let scale = getPercentile(deviations, 0.5) * MAD_SCALE;
+      if (!scale) {
+        const meanDeviation = deviations.reduce((acc, value) => acc + value, 0) / deviations.length;
+        scale = meanDeviation * MEAN_AD_SCALE;
+      }
+      return {
+        mild: [median - 3.5 * scale, median + 3.5 * scale],
+        severe: [median - 7 * scale, median + 7 * scale],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown outlier method: ${method}`);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Get the value at a percentile of a sorted sample, linearly interpolating
+ * between the two closest ranks (the same method as Excel's `PERCENTILE.INC`
+ * and NumPy's default).
+ * @param sorted - The sample values, sorted in ascending order.
+ * @param p - The percentile to get, between `0` and `1`.
+ */
+export function getPercentile(sorted: ArrayLike<number>, p: number): number {
+  if (!sorted.length) {
+    throw new Error("Cannot get a percentile of an empty sample");
+  }
+  if (p < 0 || p > 1) {
+    throw new Error(`Percentile must be between 0 and 1; got ${p}`);
+  }
+
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const lowerValue = sorted[lower]!;
+
+  if (lower === upper) return lowerValue;
+  return lowerValue + (sorted[upper]! - lowerValue) * (rank - lower);
+}
@@ -0,0 +1,60 @@
+import { getTCritical } from "#src/lib/utils/getTCritical";
+
+/**
+ * The uncertainty of a sample's mean.
+ */
+export interface MeanError {
+  /**
+   * The squared standard error of the mean, either absolute or relative to the
+   * mean.
+   */
+  variance: number;
+  /**
+   * The number of samples.
+   */
+  size: number;
+}
+
+/**
+ * Get the squared standard error of a mean relative to the mean, from the
+ * sample variance. A mean of `0` has no relative error.
+ * @param variance - The sample variance.
+ * @param size - The number of samples.
+ * @param mean - The sample mean.
+ */
+export function getRelativeMeanError(variance: number, size: number, mean: number): MeanError {
+  return { variance: mean ? variance / size / mean ** 2 : 0, size };
+}
+
+/**
+ * Get the Welch-Satterthwaite degrees of freedom for comparing two means.
+ * @see https://en.wikipedia.org/wiki/Welch%E2%80%93Satterthwaite_equation
+ */
+export function getWelchDf(a: MeanError, b: MeanError): number {
+  return (
+    (a.variance + b.variance) ** 2 /
+    (a.variance ** 2 / (a.size - 1) + b.variance ** 2 / (b.size - 1))
+  );
+}
+
+/**
+ * Get the margin of error of the ratio of two means, propagated from their
+ * relative standard errors.
+ * @see https://en.wikipedia.org/wiki/Propagation_of_uncertainty#Example_formulae
+ * @param ratio - The ratio of the means.
+ * @param a - The relative error of the first mean.
+ * @param b - The relative error of the second mean.
+ * @param confidence - The confidence level, between `0` and `1`.
+ * @returns The margin of error, or `0` if neither mean varies or either has
+ * fewer than 2 samples.
+ */
+export function getRatioMargin(
+  ratio: number,
+  a: MeanError,
+  b: MeanError,
+  confidence: number,
+): number {
+  const variance = a.variance + b.variance;
+  if (!variance || a.size < 2 || b.size < 2) return 0;
+  return getTCritical(getWelchDf(a, b), confidence) * ratio * Math.sqrt(variance);
+}
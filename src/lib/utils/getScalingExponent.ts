@@ -0,0 +1,37 @@
+/**
+ * Estimate the exponent `k` in `y ≈ c·xᵏ` with a least squares fit of the
+ * points on a log-log scale, e.g. `1` for linear growth and `2` for quadratic.
+ * @param points - The `[x, y]` points to fit, with positive values.
+ */
+export function getScalingExponent(points: readonly [x: number, y: number][]): number {
+  if (points.length < 2) {
+    throw new Error(
+      `At least 2 points are required to fit a scaling exponent; got ${points.length}`,
+    );
+  }
+
+  let sumX = 0;
+  let sumY = 0;
+  for (const [x, y] of points) {
+    if (!(x > 0 && y > 0)) {
+      throw new Error(`Points must be positive to fit a scaling exponent; got [${x}, ${y}]`);
+    }
+    sumX += Math.log(x);
+    sumY += Math.log(y);
+  }
+  const meanX = sumX / points.length;
+  const meanY = sumY / points.length;
+
+  let covariance = 0;
+  let varianceX = 0;
+  for (const [x, y] of points) {
+    const dx = Math.log(x) - meanX;
+    covariance += dx * (Math.log(y) - meanY);
+    varianceX += dx * dx;
+  }
+
+  if (!varianceX) {
+    throw new Error("Points must have at least 2 distinct x values to fit a scaling exponent");
+  }
+  return covariance / varianceX;
+}
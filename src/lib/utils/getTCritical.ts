@@ -0,0 +1,17 @@
+import { studentTQuantile } from "#src/lib/utils/distributions";
+
+/**
+ * Get the two-tailed critical t-value for a given degrees of freedom and
+ * confidence level.
+ * @param df - The degrees of freedom (may be fractional).
+ * @param confidence - The confidence level, between `0` and `1`.
+ */
+export function getTCritical(df: number, confidence = 0.95): number {
+  if (!(df > 0)) {
+    throw new Error(`Degrees of freedom must be positive; got ${df}`);
+  }
+  if (!(confidence > 0 && confidence < 1)) {
+    throw new Error(`Confidence level must be between 0 and 1; got ${confidence}`);
+  }
+  return studentTQuantile(1 - (1 - confidence) / 2, df);
+}
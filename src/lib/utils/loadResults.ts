@@ -0,0 +1,116 @@
+import { readFileSync } from "node:fs";
+import type { BenchmarkData, BenchmarkDataV1 } from "#src/lib/Benchmark";
+
+/**
+ * The version of the result schema written by `exportToJson`. It's
+ * incremented whenever the format changes, with a migration from the previous
+ * version.
+ */
+export const RESULTS_SCHEMA_VERSION = 2;
+
+// Results in any version of the schema, which all share the fields of version 1
+type VersionedData = BenchmarkDataV1 & { schemaVersion?: number } & Record<string, unknown>;
+
+// Upgrades data from each schema version to the next one.
+const MIGRATIONS: Record<number, (data: VersionedData) => VersionedData> = {
+  // Version 1 had no schema version, timestamp, options or environment
+  1: ({ name, seed, results }) => ({
+    schemaVersion: 2,
+    name,
+    ...(seed !== undefined && { seed }),
+    results,
+  }),
+};
+
+/**
+ * Load results exported with `exportToJson`, migrating results from older
+ * versions of the schema to the current one.
+ * @param source - The path to the JSON file, or its parsed data.
+ * @returns The results in the current schema.
+ * @throws If the data isn't valid results or is from a newer version of the
+ * schema.
+ */
+export function loadResults(source: string | object): BenchmarkData {
+  let data: unknown = source;
+  if (typeof source === "string") {
+    try {
+      data = JSON.parse(readFileSync(source, "utf8"));
+    } catch (error) {
+      throw new Error(`Couldn't read results from ${source}: ${(error as Error).message}`);
+    }
+  }
+
+  if (!isObject(data)) {
+    throw new Error("Invalid results: expected an object");
+  }
+
+  // Results without a version predate the schema
+  let version = data.schemaVersion ?? 1;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid results: unknown schema version ${version}`);
+  }
+  if (version > RESULTS_SCHEMA_VERSION) {
+    throw new Error(
+      `Results use schema version ${version}, but the newest supported version is ${RESULTS_SCHEMA_VERSION}`,
+    );
+  }
+
+  validateResults(data);
+  let migrated: VersionedData = data;
+  while (version < RESULTS_SCHEMA_VERSION) {
+    migrated = MIGRATIONS[version]!(migrated);
+    version++;
+  }
+  if (migrated.options !== undefined) validateOptions(migrated.options);
+
+  return migrated as BenchmarkData;
+}
+
+/**
+ * Check the fields every version of the schema shares, besides the version.
+ */
+function validateResults(data: Record<string, unknown>): asserts data is VersionedData {
+  if (typeof data.name !== "string") {
+    throw new Error("Invalid results: expected a name");
+  }
+  if (!Array.isArray(data.results)) {
+    throw new Error("Invalid results: expected an array of results");
+  }
+  const results: unknown[] = data.results;
+  for (const [i, result] of results.entries()) {
+    if (!isObject(result) || typeof result.name !== "string") {
+      throw new Error(`Invalid results: expected a name for result ${i}`);
+    }
+    if (
+      !Array.isArray(result.samples) ||
+      !result.samples.every((sample: unknown) => typeof sample === "number")
+    ) {
+      throw new Error(`Invalid results: expected an array of samples for ${result.name}`);
+    }
+    if (typeof result.totalTime !== "number") {
+      throw new Error(`Invalid results: expected a total time for ${result.name}`);
+    }
+  }
+}
+
+/**
+ * Check the options saved with the results. Options that JSON can't represent
+ * are left out when exporting, so none can be `null`.
+ */
+function validateOptions(options: unknown) {
+  if (!isObject(options)) {
+    throw new Error("Invalid results: expected the options to be an object");
+  }
+  for (const [key, value] of Object.entries(options)) {
+    if (value === null) {
+      throw new Error(`Invalid results: expected a value for the ${key} option`);
+    }
+  }
+  if (options.iterations !== undefined && typeof options.iterations !== "number") {
+    throw new Error("Invalid results: expected the iterations option to be a number");
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
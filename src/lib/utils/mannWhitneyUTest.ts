@@ -0,0 +1,72 @@
+import { normalCdf } from "#src/lib/utils/distributions";
+
+export interface MannWhitneyUTestResult {
+  /**
+   * The U statistic for `a`, the number of pairs in which the value from `a`
+   * is larger (counting ties as half).
+   */
+  statistic: number;
+  /**
+   * The two-tailed p-value, from the normal approximation with tie and
+   * continuity corrections.
+   */
+  pValue: number;
+  /**
+   * The rank-biserial correlation, between `-1` and `1`. Positive when values
+   * in `a` tend to be larger.
+   */
+  effectSize: number;
+}
+
+/**
+ * Run the Mann-Whitney U test (Wilcoxon rank-sum test) on two samples. Unlike
+ * the t-test, it doesn't assume the samples are normally distributed.
+ * @see https://en.wikipedia.org/wiki/Mann%E2%80%93Whitney_U_test
+ */
+export function mannWhitneyUTest(
+  a: readonly number[],
+  b: readonly number[],
+): MannWhitneyUTestResult {
+  if (!a.length || !b.length) {
+    throw new Error("The Mann-Whitney U test requires at least 1 sample in each group");
+  }
+
+  const n1 = a.length;
+  const n2 = b.length;
+  const n = n1 + n2;
+
+  // Rank the combined samples, giving tied values their average rank
+  const combined = [
+    ...a.map((value) => ({ value, inA: true })),
+    ...b.map((value) => ({ value, inA: false })),
+  ].sort((x, y) => x.value - y.value);
+
+  let rankSumA = 0;
+  let tieCorrection = 0;
+  for (let i = 0; i < n; ) {
+    let j = i + 1;
+    while (j < n && combined[j]!.value === combined[i]!.value) j++;
+
+    const ties = j - i;
+    const averageRank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) {
+      if (combined[k]!.inA) rankSumA += averageRank;
+    }
+    tieCorrection += ties ** 3 - ties;
+    i = j;
+  }
+
+  const statistic = rankSumA - (n1 * (n1 + 1)) / 2;
+  const mean = (n1 * n2) / 2;
+  const sd = Math.sqrt(((n1 * n2) / 12) * (n + 1 - tieCorrection / (n * (n - 1))));
+  const effectSize = statistic / mean - 1;
+
+  if (!sd) {
+    return { statistic, pValue: 1, effectSize };
+  }
+
+  const z = Math.max(0, Math.abs(statistic - mean) - 0.5) / sd;
+  const pValue = Math.min(1, 2 * normalCdf(-z));
+
+  return { statistic, pValue, effectSize };
+}
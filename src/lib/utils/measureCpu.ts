@@ -0,0 +1,70 @@
+import type { CpuUsage } from "#src/lib/Benchmark";
+import { getPercentile } from "#src/lib/utils/getPercentile";
+
+/**
+ * The CPU time and resources used by one sample. Times are in milliseconds.
+ */
+export interface CpuSample {
+  userTime: number;
+  systemTime: number;
+  wallTime: number;
+  voluntaryContextSwitches: number;
+  involuntaryContextSwitches: number;
+  minorPageFaults: number;
+  majorPageFaults: number;
+}
+
+/**
+ * Start measuring the CPU time and resources the process uses.
+ * @returns A function that stops measuring, given the wall time of the sample.
+ */
+export function measureCpu(): (wallTime: number) => CpuSample {
+  const resourcesBefore = process.resourceUsage();
+  const cpuBefore = process.cpuUsage();
+  return (wallTime) => {
+    const { user, system } = process.cpuUsage(cpuBefore);
+    const resources = process.resourceUsage();
+    return {
+      userTime: user / 1000,
+      systemTime: system / 1000,
+      wallTime,
+      voluntaryContextSwitches:
+        resources.voluntaryContextSwitches - resourcesBefore.voluntaryContextSwitches,
+      involuntaryContextSwitches:
+        resources.involuntaryContextSwitches - resourcesBefore.involuntaryContextSwitches,
+      minorPageFaults: resources.minorPageFault - resourcesBefore.minorPageFault,
+      majorPageFaults: resources.majorPageFault - resourcesBefore.majorPageFault,
+    };
+  };
+}
+
+/**
+ * Summarize the CPU samples of a test, with times per call.
+ * @param samples - The CPU samples, one per batch.
+ * @param batchSize - The number of calls in each batch.
+ */
+export function getCpuUsage(samples: readonly CpuSample[], batchSize: number): CpuUsage {
+  const sum = (key: keyof CpuSample) => samples.reduce((acc, sample) => acc + sample[key], 0);
+  const times = samples
+    .map(({ userTime, systemTime }) => (userTime + systemTime) / batchSize)
+    .sort((a, b) => a - b);
+  const meanTime = times.reduce((acc, time) => acc + time, 0) / times.length;
+  const variance =
+    times.length > 1
+      ? times.reduce((acc, time) => acc + (time - meanTime) ** 2, 0) / (times.length - 1)
+      : 0;
+  const wallTime = sum("wallTime");
+
+  return {
+    userTime: sum("userTime") / samples.length / batchSize,
+    systemTime: sum("systemTime") / samples.length / batchSize,
+    meanTime,
+    medianTime: getPercentile(times, 0.5),
+    stdDeviation: Math.sqrt(variance),
+    cpuWallRatio: wallTime ? (sum("userTime") + sum("systemTime")) / wallTime : 0,
+    voluntaryContextSwitches: sum("voluntaryContextSwitches"),
+    involuntaryContextSwitches: sum("involuntaryContextSwitches"),
+    minorPageFaults: sum("minorPageFaults"),
+    majorPageFaults: sum("majorPageFaults"),
+  };
+}
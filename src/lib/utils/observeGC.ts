@@ -0,0 +1,58 @@
+import { constants, PerformanceObserver } from "node:perf_hooks";
+
+/**
+ * The kind of a garbage collection.
+ * - `'minor'` - A scavenge of the young generation.
+ * - `'major'` - A full mark-sweep-compact of the heap.
+ * - `'incremental'` - A step of incremental marking.
+ * - `'weakcb'` - Processing of weak callbacks.
+ */
+export type GCKind = "minor" | "major" | "incremental" | "weakcb";
+
+/**
+ * A garbage collection, with times in milliseconds on the `performance.now()`
+ * timeline.
+ */
+export interface GCEvent {
+  kind: GCKind;
+  startTime: number;
+  duration: number;
+}
+
+// The GC details aren't in the entry types
+type GCEntry = PerformanceEntry & { detail?: { kind?: number } };
+
+const KINDS: Record<number, GCKind> = {
+  [constants.NODE_PERFORMANCE_GC_MINOR]: "minor",
+  [constants.NODE_PERFORMANCE_GC_MAJOR]: "major",
+  [constants.NODE_PERFORMANCE_GC_INCREMENTAL]: "incremental",
+  [constants.NODE_PERFORMANCE_GC_WEAKCB]: "weakcb",
+};
+
+/**
+ * Start recording garbage collections.
+ * @returns A function that stops recording and resolves with the garbage
+ * collections recorded so far. It can be called more than once.
+ */
+export function observeGC(): () => Promise<GCEvent[]> {
+  const events: GCEvent[] = [];
+  const record = (entries: PerformanceEntry[]) => {
+    for (const entry of entries) {
+      const { startTime, duration, detail } = entry as GCEntry;
+      const kind = KINDS[detail?.kind ?? -1];
+      if (kind) events.push({ kind, startTime, duration });
+    }
+  };
+
+  const observer = new PerformanceObserver((list) => record(list.getEntries()));
+  observer.observe({ entryTypes: ["gc"] });
+
+  return async () => {
+    // GC entries are queued after the collection finishes, so give the last
+    // ones a chance to arrive
+    await new Promise((resolve) => setImmediate(resolve));
+    record(observer.takeRecords());
+    observer.disconnect();
+    return events;
+  };
+}
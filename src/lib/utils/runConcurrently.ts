@@ -0,0 +1,104 @@
+/**
+ * The result of calling a function with several calls in flight at once.
+ */
+export interface ConcurrentRun {
+  /**
+   * The time from each call starting to settling, in milliseconds, in the
+   * order the calls settled.
+   */
+  latencies: number[];
+  /**
+   * The wall time of the whole run, in milliseconds.
+   */
+  elapsed: number;
+  /**
+   * Whether the run was interrupted before every call settled.
+   */
+  interrupted: boolean;
+  /**
+   * Whether a call ran longer than the timeout, which stops the run.
+   */
+  timedOut: boolean;
+}
+
+/**
+ * Call a function a number of times, starting a new call whenever one settles
+ * so that up to `concurrency` calls are in flight at once.
+ * @param call - Makes the call with the given index.
+ * @param calls - The total number of calls to make.
+ * @param concurrency - The most calls to keep in flight.
+ * @param interrupt - Stops the run when it settles. Calls still in flight are
+ * left running and aren't recorded.
+ * @param timeout - The longest a single call can run, in milliseconds, before
+ * it stops the run like an interrupt.
+ * @returns The latencies of the calls that settled and the elapsed time.
+ */
+export async function runConcurrently(
+  call: (index: number) => unknown,
+  calls: number,
+  concurrency: number,
+  interrupt?: Promise<unknown>,
+  timeout = Infinity,
+): Promise<ConcurrentRun> {
+  const latencies: number[] = [];
+  let next = 0;
+  let stopped = false;
+  let timedOut = false;
+  let stopTimedOut: () => void;
+  const timedOutPromise = new Promise<void>((resolve) => {
+    stopTimedOut = resolve;
+  });
+
+  const runLane = async () => {
+    while (next < calls && !stopped) {
+      const start = performance.now();
+      const settled = await settleWithin(call(next++), timeout);
+      const latency = performance.now() - start;
+      if (!settled || latency > timeout) {
+        timedOut = true;
+        stopTimedOut();
+        return;
+      }
+      latencies.push(latency);
+    }
+  };
+
+  const start = performance.now();
+  const lanes = Promise.all(Array.from({ length: Math.min(concurrency, calls) }, runLane));
+  try {
+    await Promise.race([lanes, timedOutPromise, ...(interrupt ? [interrupt] : [])]);
+  } finally {
+    // Stop starting calls once the run is over, including when a call fails
+    stopped = true;
+  }
+
+  return {
+    latencies,
+    elapsed: performance.now() - start,
+    interrupted: latencies.length < calls,
+    timedOut,
+  };
+}
+
+/**
+ * Wait for a call to settle, resolving false if it takes longer than the
+ * timeout.
+ */
+async function settleWithin(value: unknown, timeout: number): Promise<boolean> {
+  if (timeout === Infinity) {
+    await value;
+    return true;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      Promise.resolve(value).then(() => true),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), timeout);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
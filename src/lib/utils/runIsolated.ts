@@ -0,0 +1,182 @@
+import { fork } from "node:child_process";
+import { extname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Worker } from "node:worker_threads";
+import type { Params, RunOptions, TestResult } from "#src/lib/Benchmark";
+
+/**
+ * Where tests are run.
+ * - `'none'` - In the current thread, interleaved with the other tests
+ * - `'worker'` - One at a time, each in a fresh `worker_threads` Worker
+ * - `'process'` - One at a time, each in a fresh forked Node.js process
+ */
+export type Isolation = "none" | "worker" | "process";
+
+/**
+ * A test to run in isolation, loaded from a module in the isolated thread or
+ * process.
+ */
+export interface IsolatedTest {
+  name: string;
+  /**
+   * The path of the module that exports the test function.
+   */
+  module: string;
+  /**
+   * The name of the export to test.
+   */
+  export: string;
+  iterations: number;
+  params?: Params;
+  options: Pick<
+    RunOptions,
+    | "batchSize"
+    | "clone"
+    | "concurrency"
+    | "confidence"
+    | "coolDown"
+    | "cpu"
+    | "cycles"
+    | "eventLoopDelay"
+    | "gcInterval"
+    | "gcStrategy"
+    | "maxSamples"
+    | "memory"
+    | "minSamples"
+    | "preheat"
+    | "preheatTime"
+    | "seed"
+    | "subtractOverhead"
+    | "targetRme"
+    | "testTimeout"
+    | "time"
+    | "timeout"
+    | "value"
+  >;
+}
+
+/**
+ * The results of an isolated test that aren't streamed with the samples.
+ */
+export type IsolatedResult = Pick<
+  TestResult,
+  | "batchSize"
+  | "overhead"
+  | "converged"
+  | "warmup"
+  | "memory"
+  | "gc"
+  | "cpu"
+  | "throughput"
+  | "eventLoopDelay"
+  | "status"
+>;
+
+/**
+ * A message sent from an isolated test to the parent.
+ */
+export type IsolatedMessage =
+  | { type: "samples"; samples: number[] }
+  | { type: "done"; result: IsolatedResult }
+  | { type: "error"; message: string; stack?: string };
+
+// The entry point of isolated threads and processes, which is a TypeScript
+// file when running from source.
+const RUNNER_URL = new URL(`../isolatedRunner${extname(import.meta.url)}`, import.meta.url);
+
+/**
+ * Run a test in a fresh worker thread or child process, streaming its samples
+ * back as they're recorded.
+ * @param isolation - Whether to use a worker thread or a child process.
+ * @param test - The test to run.
+ * @param onSamples - Called with each chunk of samples, in milliseconds.
+ * @param signal - A signal to stop the test, which rejects with the reason.
+ */
+export function runIsolated(
+  isolation: Exclude<Isolation, "none">,
+  test: IsolatedTest,
+  onSamples: (samples: number[]) => void,
+  signal?: AbortSignal,
+): Promise<IsolatedResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    let isSettled = false;
+    let stop = () => {};
+
+    const handleAbort = () => {
+      if (isSettled) return;
+      isSettled = true;
+      reject(signal!.reason);
+      stop();
+    };
+    signal?.addEventListener("abort", handleAbort, { once: true });
+
+    const handleMessage = (message: IsolatedMessage) => {
+      switch (message.type) {
+        case "samples":
+          onSamples(message.samples);
+          break;
+        case "done":
+          isSettled = true;
+          signal?.removeEventListener("abort", handleAbort);
+          resolve(message.result);
+          // Don't wait on handles the test module left open
+          stop();
+          break;
+        case "error":
+          isSettled = true;
+          signal?.removeEventListener("abort", handleAbort);
+          reject(Object.assign(new Error(message.message), { stack: message.stack }));
+          stop();
+          break;
+      }
+    };
+
+    const handleExit = (code: number | null) => {
+      if (isSettled) return;
+      isSettled = true;
+      signal?.removeEventListener("abort", handleAbort);
+      reject(new Error(`Isolated ${isolation} for ${test.name} exited early with code ${code}`));
+    };
+
+    const handleError = (error: Error) => {
+      if (isSettled) return;
+      isSettled = true;
+      signal?.removeEventListener("abort", handleAbort);
+      reject(error);
+    };
+
+    if (isolation === "worker") {
+      const worker = createWorker(test);
+      stop = () => void worker.terminate();
+      worker.on("message", handleMessage).on("error", handleError).on("exit", handleExit);
+      return;
+    }
+
+    const child = fork(fileURLToPath(RUNNER_URL), { serialization: "advanced" });
+    stop = () => child.kill();
+    child
+      .on("message", (message) => handleMessage(message as IsolatedMessage))
+      .on("error", handleError)
+      .on("exit", handleExit);
+    child.send(test);
+  });
+}
+
+function createWorker(test: IsolatedTest): Worker {
+  if (extname(RUNNER_URL.pathname) !== ".ts") {
+    return new Worker(RUNNER_URL, { workerData: test });
+  }
+
+  // Workers don't inherit tsx's loader, so register it before loading the
+  // runner from source.
+  const tsxApi = import.meta.resolve("tsx/esm/api");
+  return new Worker(
+    `import(${JSON.stringify(tsxApi)}).then(({ register }) => {
+      register();
+      return import(${JSON.stringify(RUNNER_URL.href)});
+    });`,
+    { eval: true, workerData: test },
+  );
+}
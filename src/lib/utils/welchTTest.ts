@@ -0,0 +1,68 @@
+import { studentTCdf } from "#src/lib/utils/distributions";
+import { getWelchDf } from "#src/lib/utils/getRatioMargin";
+
+export interface WelchTTestResult {
+  /**
+   * The t-statistic. Positive when `a` has the larger mean.
+   */
+  statistic: number;
+  /**
+   * The Welch-Satterthwaite degrees of freedom.
+   */
+  df: number;
+  /**
+   * The two-tailed p-value.
+   */
+  pValue: number;
+  /**
+   * Cohen's d, the difference in means relative to the pooled standard
+   * deviation. Positive when `a` has the larger mean.
+   */
+  effectSize: number;
+}
+
+/**
+ * Run Welch's unequal variances t-test on two samples.
+ * @see https://en.wikipedia.org/wiki/Welch%27s_t-test
+ */
+export function welchTTest(a: readonly number[], b: readonly number[]): WelchTTestResult {
+  if (a.length < 2 || b.length < 2) {
+    throw new Error("Welch's t-test requires at least 2 samples in each group");
+  }
+
+  const [meanA, varianceA] = getMeanAndVariance(a);
+  const [meanB, varianceB] = getMeanAndVariance(b);
+  const diff = meanA - meanB;
+
+  const pooledSd = Math.sqrt(
+    ((a.length - 1) * varianceA + (b.length - 1) * varianceB) / (a.length + b.length - 2),
+  );
+  const effectSize = pooledSd ? diff / pooledSd : 0;
+
+  const errorA = varianceA / a.length;
+  const errorB = varianceB / b.length;
+  const standardError = Math.sqrt(errorA + errorB);
+
+  // Both samples are constant, so the means either match or they don't
+  if (!standardError) {
+    return {
+      statistic: diff ? Math.sign(diff) * Infinity : 0,
+      df: a.length + b.length - 2,
+      pValue: diff ? 0 : 1,
+      effectSize,
+    };
+  }
+
+  const statistic = diff / standardError;
+  const df = getWelchDf({ variance: errorA, size: a.length }, { variance: errorB, size: b.length });
+  const pValue = Math.min(1, 2 * studentTCdf(-Math.abs(statistic), df));
+
+  return { statistic, df, pValue, effectSize };
+}
+
+function getMeanAndVariance(samples: readonly number[]): [mean: number, variance: number] {
+  const mean = samples.reduce((acc, value) => acc + value, 0) / samples.length;
+  const variance =
+    samples.reduce((acc, value) => acc + (value - mean) ** 2, 0) / (samples.length - 1);
+  return [mean, variance];
+}
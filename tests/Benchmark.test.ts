@@ -1,6 +1,22 @@
 import assert from "node:assert";
-import { describe, it } from "node:test";
-import { Benchmark, benchmark } from "#src/lib/Benchmark";
+import { execFile } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { promisify } from "node:util";
+import {
+  Benchmark,
+  type BenchmarkData,
+  benchmark,
+  type Params,
+  type RunOptions,
+  type TestResult,
+  type ValueContext,
+} from "#src/lib/Benchmark";
+import type { Schedule } from "#src/lib/utils/createScheduler";
+import { getTCritical } from "#src/lib/utils/getTCritical";
+import { loadResults, RESULTS_SCHEMA_VERSION } from "#src/lib/utils/loadResults";
 
 describe("Benchmark", () => {
   describe("Constructor and basic functionality", () => {
@@ -125,6 +141,1018 @@ describe("Benchmark", () => {
     });
   });
 
+  describe("Time budgets", () => {
+    it("should run each test until it uses its time budget", async () => {
+      const bench = new Benchmark();
+      bench.test("Fast", () => 42);
+      bench.test("Slow", () => {
+        const end = performance.now() + 1;
+        while (performance.now() < end) {}
+      });
+
+      await bench.run(undefined, { verbosity: 0, time: 20 });
+
+      const fast = bench.results.find((result) => result.name === "Fast")!;
+      const slow = bench.results.find((result) => result.name === "Slow")!;
+      assert.ok(slow.samples.length >= 5);
+      assert.ok(slow.samples.length <= 25);
+      assert.ok(fast.samples.length > slow.samples.length);
+    });
+
+    it("should respect the sample bounds", async () => {
+      const bench = new Benchmark();
+      bench.test("Fast", () => 42);
+      bench.test("Slow", () => {
+        const end = performance.now() + 5;
+        while (performance.now() < end) {}
+      });
+
+      await bench.run(undefined, {
+        verbosity: 0,
+        time: 1,
+        minSamples: 3,
+        maxSamples: 20,
+        cycles: 2,
+      });
+
+      const fast = bench.results.find((result) => result.name === "Fast")!;
+      const slow = bench.results.find((result) => result.name === "Slow")!;
+      assert.ok(fast.samples.length <= 40);
+      assert.strictEqual(slow.samples.length, 6);
+    });
+
+    it("should reject invalid budgets", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+
+      await assert.rejects(bench.run(undefined, { verbosity: 0, time: 0 }), /Time budget/);
+      await assert.rejects(
+        bench.run(undefined, { verbosity: 0, time: 10, minSamples: 10, maxSamples: 5 }),
+        /Minimum samples/,
+      );
+    });
+  });
+
+  describe("Adaptive sampling", () => {
+    it("should stop once the target margin of error is reached", async () => {
+      const bench = new Benchmark();
+      bench.test("Steady", () => {
+        const end = performance.now() + 0.1;
+        while (performance.now() < end) {}
+      });
+
+      await bench.run(undefined, { verbosity: 0, targetRme: 0.5, time: 5000, outliers: "none" });
+
+      const result = bench.results[0];
+      assert.strictEqual(result.converged, true);
+      assert.ok(result.samples.length >= 5);
+      assert.ok(result.samples.length < 1000);
+      assert.strictEqual(result.warnings, undefined);
+    });
+
+    it("should stop at the time cap when the target isn't reached", async () => {
+      const bench = new Benchmark();
+      let calls = 0;
+      bench.test("Noisy", () => {
+        const end = performance.now() + (++calls % 2 ? 0.01 : 2);
+        while (performance.now() < end) {}
+      });
+
+      await bench.run(undefined, { verbosity: 0, targetRme: 1e-6, time: 30 });
+
+      const result = bench.results[0];
+      assert.strictEqual(result.converged, false);
+      assert.match(result.warnings?.[0] ?? "", /target margin of error/);
+    });
+
+    it("should reject invalid targets", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+
+      await assert.rejects(bench.run(undefined, { verbosity: 0, targetRme: 0 }), /Target/);
+    });
+  });
+
+  describe("Batching", () => {
+    it("should time batches of calls and record the time per call", async () => {
+      const bench = new Benchmark();
+      let callCount = 0;
+      bench.test("Batched", () => ++callCount);
+
+      await bench.run(10, { verbosity: 0, batchSize: 50 });
+
+      const result = bench.results[0];
+      assert.strictEqual(callCount, 500);
+      assert.strictEqual(result.batchSize, 50);
+      assert.strictEqual(result.samples.length, 10);
+    });
+
+    it("should clone the value for each call in a batch", async () => {
+      const bench = new Benchmark<string, number[]>();
+      bench.test("Mutating", (arr) => arr.push(1));
+
+      await bench.run(5, { verbosity: 0, batchSize: 10, value: [] as number[] });
+
+      assert.strictEqual(bench.results[0].samples.length, 5);
+    });
+
+    it("should choose batch sizes automatically", async () => {
+      const bench = new Benchmark();
+      bench.test("Fast", () => 42);
+      bench.test("Slow", () => {
+        const end = performance.now() + 1;
+        while (performance.now() < end) {}
+      });
+
+      await bench.run(5, { verbosity: 0, batchSize: "auto" });
+
+      const fast = bench.results.find((result) => result.name === "Fast")!;
+      const slow = bench.results.find((result) => result.name === "Slow")!;
+      assert.ok(fast.batchSize! > slow.batchSize!);
+      assert.ok(Number.isInteger(Math.log2(fast.batchSize!)));
+    });
+
+    it("should reject invalid batch sizes", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+
+      await assert.rejects(bench.run(5, { verbosity: 0, batchSize: 0 }), /Batch size/);
+      await assert.rejects(bench.run(5, { verbosity: 0, batchSize: 1.5 }), /Batch size/);
+    });
+  });
+
+  describe("Values", () => {
+    it("should clone object values by default", async () => {
+      const bench = new Benchmark<string, number[]>();
+      const value = [3, 1, 2];
+      bench.test("Sort", (arr) => arr.sort());
+
+      await bench.run(5, { verbosity: 0, value });
+
+      assert.deepStrictEqual(value, [3, 1, 2]);
+    });
+
+    it("should pass values as-is when cloning is disabled", async () => {
+      const bench = new Benchmark<string, number[]>();
+      const value: number[] = [];
+      bench.test("Push", (arr) => arr.push(1));
+
+      await bench.run(5, { verbosity: 0, value, clone: false });
+
+      assert.strictEqual(value.length, 5);
+    });
+
+    it("should use custom clone functions", async () => {
+      const bench = new Benchmark<string, Map<string, () => void>>();
+      let cloneCount = 0;
+      bench.test("Map", (map) => map.size);
+
+      await bench.run(5, {
+        verbosity: 0,
+        value: new Map([["noop", () => {}]]),
+        clone: (map) => {
+          cloneCount++;
+          return new Map(map);
+        },
+      });
+
+      assert.strictEqual(cloneCount, 5);
+    });
+
+    it("should call value factories for each call", async () => {
+      class Counter {
+        count = 0;
+      }
+      const bench = new Benchmark<string, Counter>();
+      const contexts: ValueContext[] = [];
+      bench.test("Increment", (counter) => ++counter.count);
+
+      await bench.run(3, {
+        verbosity: 0,
+        batchSize: 2,
+        value: (context) => {
+          contexts.push(context);
+          return new Counter();
+        },
+        validate: (result, counter) => result === 1 && counter instanceof Counter,
+      });
+
+      assert.deepStrictEqual(contexts, [
+        { test: "Increment", sample: 0, call: 0, params: {} },
+        { test: "Increment", sample: 0, call: 1, params: {} },
+        { test: "Increment", sample: 1, call: 0, params: {} },
+        { test: "Increment", sample: 1, call: 1, params: {} },
+        { test: "Increment", sample: 2, call: 0, params: {} },
+        { test: "Increment", sample: 2, call: 1, params: {} },
+      ]);
+      assert.strictEqual(bench.results[0].samples.length, 3);
+    });
+  });
+
+  describe("Parameters", () => {
+    it("should run each test for every parameter combination", async () => {
+      const bench = new Benchmark();
+      const calls: string[] = [];
+      bench.params({ size: [10, 100], sorted: [true, false] });
+      bench.test("Test", (_, { size, sorted }) => calls.push(`${size}-${sorted}`));
+
+      await bench.run(2, { verbosity: 0 });
+
+      assert.deepStrictEqual([...new Set(calls)], ["10-true", "10-false", "100-true", "100-false"]);
+      assert.strictEqual(bench.results.length, 4);
+      assert.deepStrictEqual(
+        bench.results.map(({ params }) => params),
+        [
+          { size: 10, sorted: true },
+          { size: 10, sorted: false },
+          { size: 100, sorted: true },
+          { size: 100, sorted: false },
+        ],
+      );
+    });
+
+    it("should pass parameters to value factories and hooks", async () => {
+      const bench = new Benchmark<string, number[]>();
+      const setupSizes: number[] = [];
+      bench.params({ size: [1, 5] });
+      bench.beforeAll(({ size }) => setupSizes.push(size));
+      bench.test("Length", (arr) => arr.length);
+
+      await bench.run(3, {
+        verbosity: 0,
+        value: ({ params }) => new Array(params.size).fill(0),
+        validate: (result, arr) => result === arr.length,
+      });
+
+      assert.deepStrictEqual(setupSizes, [1, 5]);
+      assert.deepStrictEqual(
+        bench.results.map(({ samples }) => samples.length),
+        [3, 3],
+      );
+    });
+
+    it("should compare tests within each combination", async () => {
+      const bench = new Benchmark();
+      bench.params({ size: [1, 2] });
+      bench.test("Fast", () => 42);
+      bench.test("Slow", (_, { size }) => {
+        const end = performance.now() + size / 10;
+        while (performance.now() < end) {}
+      });
+
+      await bench.run(20, { verbosity: 0 });
+
+      for (const size of [1, 2]) {
+        const results = bench.results.filter(({ params }) => params?.size === size);
+        assert.strictEqual(results.length, 2);
+        const fast = results.find((result) => result.name === "Fast")!;
+        assert.strictEqual(fast.relative?.baseline, "Fast");
+      }
+    });
+
+    it("should reject parameters without values", () => {
+      const bench = new Benchmark();
+      assert.throws(() => bench.params({ size: [] }), /at least one value/);
+    });
+  });
+
+  describe("Timeouts and cancellation", () => {
+    it("should mark completed tests", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+
+      await bench.run(5, { verbosity: 0 });
+
+      assert.strictEqual(bench.results[0]!.status, "completed");
+    });
+
+    it("should time out samples that never settle", async () => {
+      const bench = new Benchmark();
+      let calls = 0;
+      bench.test("Hangs", () => (++calls > 3 ? new Promise(() => {}) : 42));
+      bench.test("Fast", () => 42);
+
+      await bench.run(10, { verbosity: 0, timeout: 20 });
+
+      const hangs = bench.results.find((result) => result.name === "Hangs")!;
+      const fast = bench.results.find((result) => result.name === "Fast")!;
+      assert.strictEqual(hangs.status, "timed-out");
+      assert.strictEqual(hangs.samples.length, 3);
+      assert.ok(hangs.meanTime! >= 0);
+      assert.strictEqual(fast.status, "completed");
+      assert.strictEqual(fast.samples.length, 10);
+    });
+
+    it("should time out samples that finish after the timeout", async () => {
+      const bench = new Benchmark();
+      bench.test("Slow", () => {
+        const end = performance.now() + 5;
+        while (performance.now() < end) {}
+      });
+
+      await bench.run(10, { verbosity: 0, timeout: 1 });
+
+      assert.strictEqual(bench.results[0]!.status, "timed-out");
+      assert.strictEqual(bench.results[0]!.samples.length, 1);
+    });
+
+    it("should time out tests that run too long in total", async () => {
+      const bench = new Benchmark();
+      bench.test("Slow", () => new Promise((resolve) => setTimeout(resolve, 5)));
+
+      await bench.run(1000, { verbosity: 0, testTimeout: 30, cycles: 2 });
+
+      const [result] = bench.results;
+      assert.strictEqual(result!.status, "timed-out");
+      assert.ok(result!.samples.length < 10);
+    });
+
+    it("should time out tests that hang while preheating", async () => {
+      const bench = new Benchmark();
+      bench.test("Hangs", () => new Promise(() => {}));
+
+      await bench.preheat(10, { verbosity: 0, timeout: 20 });
+      assert.strictEqual(bench.results[0]!.status, "timed-out");
+
+      await bench.run(10, { verbosity: 0, preheat: 10, timeout: 20 });
+      assert.strictEqual(bench.results[0]!.status, "timed-out");
+    });
+
+    it("should time out tests that hang while finding a batch size", async () => {
+      const bench = new Benchmark();
+      bench.test("Hangs", () => new Promise(() => {}));
+
+      await bench.run(10, { verbosity: 0, batchSize: "auto", timeout: 20 });
+
+      assert.strictEqual(bench.results[0]!.status, "timed-out");
+      assert.strictEqual(bench.results[0]!.samples.length, 0);
+    });
+
+    it("should abort runs and keep partial results", async () => {
+      const bench = new Benchmark();
+      const controller = new AbortController();
+      let slowSamples = 0;
+      bench.test(
+        "Slow",
+        () => new Promise((resolve) => setTimeout(() => resolve(slowSamples++), 1)),
+      );
+      // Hang and abort once the slow test has a sample, whichever test runs first
+      bench.test(
+        "Hangs",
+        () =>
+          new Promise((resolve) => {
+            if (slowSamples) setTimeout(() => controller.abort(), 10);
+            else setImmediate(resolve);
+          }),
+      );
+
+      await bench.run(1e5, { verbosity: 0, signal: controller.signal });
+
+      for (const result of bench.results) {
+        assert.strictEqual(result.status, "aborted");
+      }
+      const slow = bench.results.find((result) => result.name === "Slow")!;
+      assert.ok(slow.samples.length > 0);
+      assert.ok(slow.meanTime! > 0);
+    });
+
+    it("should stop running parameter combinations when aborted", async () => {
+      const bench = new Benchmark();
+      const controller = new AbortController();
+      bench.params({ size: [1, 2, 3] });
+      bench.test("Test", () => 42);
+      bench.afterAll(() => controller.abort());
+
+      await bench.run(5, { verbosity: 0, signal: controller.signal });
+
+      assert.strictEqual(bench.results.length, 1);
+    });
+
+    it("should reject invalid timeouts", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+
+      await assert.rejects(bench.run(5, { verbosity: 0, timeout: 0 }), /Timeout/);
+      await assert.rejects(bench.run(5, { verbosity: 0, testTimeout: -1 }), /Test timeout/);
+    });
+  });
+
+  describe("Scheduling", () => {
+    async function getOrder(options: RunOptions) {
+      const bench = new Benchmark();
+      const order: string[] = [];
+      bench.test("A", () => 1);
+      bench.test("B", () => 2);
+      bench.test("C", () => 3);
+      await bench.run(4, { verbosity: 0, ...options, onSample: (test) => order.push(test) });
+      return { bench, order: order.join("") };
+    }
+
+    it("should run tests in the same order with the same seed", async () => {
+      const { order } = await getOrder({ seed: 42 });
+      assert.strictEqual((await getOrder({ seed: 42 })).order, order);
+      assert.notStrictEqual((await getOrder({ seed: 43 })).order, order);
+    });
+
+    it("should save the seed", async () => {
+      const { bench, order } = await getOrder({});
+      assert.ok(bench.seed !== undefined);
+      assert.strictEqual((await getOrder({ seed: bench.seed })).order, order);
+    });
+
+    it("should run tests with the chosen schedule", async () => {
+      assert.strictEqual((await getOrder({ schedule: "round-robin" })).order, "ABCABCABCABC");
+      assert.strictEqual((await getOrder({ schedule: "blocked" })).order, "AAAABBBBCCCC");
+
+      const { order } = await getOrder({ schedule: "latin-square", seed: 1 });
+      for (let round = 0; round < 3; round++) {
+        assert.deepStrictEqual([...order.slice(round * 3, round * 3 + 3)].sort(), ["A", "B", "C"]);
+      }
+    });
+
+    it("should reject unknown schedules", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+
+      await assert.rejects(
+        bench.run(5, { verbosity: 0, schedule: "nope" as Schedule }),
+        /Unknown schedule/,
+      );
+    });
+  });
+
+  describe("Memory", () => {
+    it("should track allocations with memory: true", async () => {
+      const bench = new Benchmark();
+      bench.test("Allocates", () => new Array(1000).fill(1));
+      bench.test("Noop", () => 1);
+
+      await bench.run(200, { verbosity: 0, memory: true, preheat: 100 });
+
+      const [allocates, noop] = bench.results;
+      assert.ok(allocates!.memory!.allocatedPerOp! > 4000);
+      assert.ok(allocates!.memory!.allocatedPerOp! < 20000);
+      assert.ok(noop!.memory!.allocatedPerOp! < allocates!.memory!.allocatedPerOp! / 4);
+      assert.ok(Number.isFinite(noop!.memory!.heapUsedDelta));
+    });
+
+    it("should track allocations per call when batching", async () => {
+      const bench = new Benchmark();
+      bench.test("Allocates", () => new Array(1000).fill(1));
+
+      await bench.run(50, { verbosity: 0, memory: true, batchSize: 10 });
+
+      const { allocatedPerOp } = bench.results[0]!.memory!;
+      assert.ok(allocatedPerOp! > 4000);
+      assert.ok(allocatedPerOp! < 20000);
+    });
+
+    it("should measure retained memory when GC is exposed", async () => {
+      // GC can only be exposed safely at startup, so run in a new process
+      const script = `
+        import { Benchmark } from "#src/lib/Benchmark";
+        const bench = new Benchmark();
+        const retained = [];
+        bench.test("Leaks", () => {
+          retained.push(new Array(1000).fill(1));
+        });
+        bench.test("Allocates", () => new Array(1000).fill(1));
+        await bench.run(50, { verbosity: 0, memory: true });
+        console.log(JSON.stringify(bench.results.map(({ memory }) => memory)));
+      `;
+      const { stdout } = await promisify(execFile)(process.execPath, [
+        ...process.execArgv,
+        "--expose-gc",
+        "--input-type=module",
+        "--eval",
+        script,
+      ]);
+
+      const [leaks, allocates] = JSON.parse(stdout);
+      assert.ok(leaks.retainedPerOp > 4000);
+      assert.ok(allocates.retainedPerOp < 1000);
+    });
+
+    it("should time out measuring retained memory", async () => {
+      const script = `
+        import { Benchmark } from "#src/lib/Benchmark";
+        const bench = new Benchmark();
+        let calls = 0;
+        bench.test("Hangs", () => (++calls > 50 ? new Promise(() => {}) : 42));
+        await bench.run(50, { verbosity: 0, memory: true, timeout: 20 });
+        console.log(JSON.stringify(bench.results[0]));
+      `;
+      const { stdout } = await promisify(execFile)(process.execPath, [
+        ...process.execArgv,
+        "--expose-gc",
+        "--input-type=module",
+        "--eval",
+        script,
+      ]);
+
+      const result = JSON.parse(stdout);
+      assert.strictEqual(result.status, "timed-out");
+      assert.strictEqual(result.samples.length, 50);
+      assert.strictEqual(result.memory.retainedPerOp, undefined);
+    });
+
+    it("should not track memory by default", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+
+      await bench.run(5, { verbosity: 0 });
+
+      assert.strictEqual(bench.results[0]!.memory, undefined);
+    });
+  });
+
+  describe("CPU usage", () => {
+    const compute = () => {
+      let sum = 0;
+      for (let i = 0; i < 1e5; i++) sum += i;
+      return sum;
+    };
+
+    it("should track CPU time with cpu: true", async () => {
+      const bench = new Benchmark();
+      bench.test("Computes", compute);
+      bench.test("Waits", () => new Promise((resolve) => setTimeout(resolve, 5)));
+
+      await bench.run(20, { verbosity: 0, cpu: true });
+
+      const [computes, waits] = bench.results;
+      assert.ok(computes!.cpu!.meanTime > 0);
+      // Other processes can take CPU time from the test, so only compare them
+      assert.ok(computes!.cpu!.cpuWallRatio > waits!.cpu!.cpuWallRatio);
+      assert.ok(waits!.cpu!.cpuWallRatio < 0.5);
+      assert.ok(waits!.cpu!.voluntaryContextSwitches >= 0);
+      assert.ok(waits!.cpu!.minorPageFaults >= 0);
+    });
+
+    it("should track CPU time per call when batching", async () => {
+      const bench = new Benchmark();
+      bench.test("Computes", compute);
+
+      await bench.run(20, { verbosity: 0, cpu: true, batchSize: 10 });
+
+      const [result] = bench.results;
+      assert.ok(result!.cpu!.meanTime > result!.meanTime! / 4);
+      assert.ok(result!.cpu!.meanTime < result!.meanTime! * 4);
+    });
+
+    it("should not track CPU time by default", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+
+      await bench.run(5, { verbosity: 0 });
+
+      assert.strictEqual(bench.results[0]!.cpu, undefined);
+    });
+  });
+
+  describe("Concurrency and event loop delay", () => {
+    it("should measure throughput with calls in flight", async () => {
+      const bench = new Benchmark();
+      bench.test("Waits", () => new Promise((resolve) => setTimeout(resolve, 2)));
+
+      await bench.run(20, { verbosity: 0, concurrency: 5 });
+
+      const [result] = bench.results;
+      const { throughput } = result!;
+      assert.strictEqual(throughput!.concurrency, 5);
+      assert.strictEqual(throughput!.calls, 20);
+      assert.ok(throughput!.opsPerSecond > (2 * 1000) / result!.meanTime!);
+      assert.ok(throughput!.meanLatency > 0);
+      assert.ok(throughput!.latencyPercentiles.p99 >= throughput!.medianLatency);
+      assert.strictEqual(result!.samples.length, 20);
+    });
+
+    it("should not time creating values under load", async () => {
+      const bench = new Benchmark<string, number>();
+      bench.test("Test", (value) => value);
+
+      await bench.run(10, {
+        verbosity: 0,
+        concurrency: 2,
+        value: () => {
+          const end = performance.now() + 5;
+          while (performance.now() < end);
+          return 42;
+        },
+      });
+
+      const { throughput } = bench.results[0]!;
+      assert.strictEqual(throughput!.calls, 10);
+      assert.ok(throughput!.totalTime < 5);
+      assert.ok(throughput!.meanLatency < 5);
+    });
+
+    it("should record the event loop delay", async () => {
+      const bench = new Benchmark();
+      bench.test("Blocks", () => {
+        const end = performance.now() + 5;
+        while (performance.now() < end);
+      });
+      bench.test("Waits", () => new Promise((resolve) => setTimeout(resolve, 5)));
+
+      await bench.run(10, { verbosity: 0, eventLoopDelay: true });
+
+      const [blocks, waits] = bench.results;
+      assert.ok(blocks!.eventLoopDelay!.max >= 40);
+      assert.ok(waits!.eventLoopDelay!.count > 0);
+      assert.ok(waits!.eventLoopDelay!.max < blocks!.eventLoopDelay!.max);
+      assert.strictEqual(blocks!.throughput!.concurrency, 1);
+    });
+
+    it("should time out tests under load", async () => {
+      const bench = new Benchmark();
+      let calls = 0;
+      bench.test("Hangs later", () => (++calls > 5 ? new Promise(() => {}) : Promise.resolve()));
+
+      await bench.run(5, { verbosity: 0, concurrency: 2, testTimeout: 50 });
+
+      const [result] = bench.results;
+      assert.strictEqual(result!.status, "timed-out");
+      assert.strictEqual(result!.samples.length, 5);
+      assert.strictEqual(result!.throughput, undefined);
+    });
+
+    it("should time out calls under load", async () => {
+      const bench = new Benchmark();
+      let calls = 0;
+      bench.test("Hangs later", () => (++calls > 5 ? new Promise(() => {}) : Promise.resolve()));
+
+      await bench.run(5, { verbosity: 0, concurrency: 2, timeout: 50 });
+
+      const [result] = bench.results;
+      assert.strictEqual(result!.status, "timed-out");
+      assert.strictEqual(result!.samples.length, 5);
+      assert.strictEqual(result!.throughput, undefined);
+    });
+
+    it("should not run tests under load by default", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+
+      await bench.run(5, { verbosity: 0 });
+
+      assert.strictEqual(bench.results[0]!.throughput, undefined);
+      assert.strictEqual(bench.results[0]!.eventLoopDelay, undefined);
+    });
+
+    it("should reject invalid concurrency", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+
+      await assert.rejects(bench.run(5, { verbosity: 0, concurrency: 0 }), /Concurrency/);
+      await assert.rejects(bench.run(5, { verbosity: 0, concurrency: 1.5 }), /Concurrency/);
+    });
+  });
+
+  describe("GC events", () => {
+    it("should count the GCs that run during each test", async () => {
+      const bench = new Benchmark();
+      bench.test("Allocates", () => Array.from({ length: 10000 }, (_, i) => ({ i })));
+
+      await bench.run(100, { verbosity: 0 });
+
+      const { gc } = bench.results[0]!;
+      assert.ok(gc!.count > 0);
+      assert.ok(gc!.kinds.minor > 0);
+      assert.strictEqual(
+        Object.values(gc!.kinds).reduce((sum, count) => sum + count, 0),
+        gc!.count,
+      );
+      assert.ok(gc!.pauseTime > 0);
+    });
+
+    it("should not count GCs outside of samples", async () => {
+      const bench = new Benchmark();
+      bench.test("Noop", () => 42);
+      bench.beforeEach(() => {
+        Array.from({ length: 10000 }, (_, i) => ({ i }));
+      });
+
+      await bench.run(100, { verbosity: 0 });
+
+      const { gc } = bench.results[0]!;
+      assert.ok(gc!.count < 5);
+    });
+  });
+
+  describe("Failures", () => {
+    it("should keep running other tests when one throws", async () => {
+      const bench = new Benchmark();
+      let calls = 0;
+      bench.test("Throws", () => {
+        if (++calls > 3) throw new Error("Nope");
+      });
+      bench.test("Works", () => 42);
+
+      await bench.run(10, { verbosity: 0 });
+
+      const throws = bench.results.find((result) => result.name === "Throws")!;
+      const works = bench.results.find((result) => result.name === "Works")!;
+      assert.strictEqual(throws.status, "failed");
+      assert.strictEqual(throws.error, "Nope");
+      assert.strictEqual(throws.samples.length, 3);
+      assert.ok(throws.meanTime! >= 0);
+      assert.strictEqual(works.status, "completed");
+      assert.strictEqual(works.samples.length, 10);
+      assert.ok(works.meanTime! >= 0);
+    });
+
+    it("should fail tests that reject", async () => {
+      const bench = new Benchmark();
+      bench.test("Rejects", () => Promise.reject(new Error("Nope")));
+      bench.test("Works", async () => 42);
+
+      await bench.run(5, { verbosity: 0, batchSize: 2 });
+
+      const [rejects, works] = bench.results;
+      assert.strictEqual(rejects!.status, "failed");
+      assert.strictEqual(rejects!.samples.length, 0);
+      assert.strictEqual(works!.status, "completed");
+    });
+
+    it("should fail tests that fail validation", async () => {
+      const bench = new Benchmark();
+      bench.test("Wrong", () => 41);
+      bench.test("Right", () => 42);
+
+      await bench.run(5, {
+        verbosity: 0,
+        validate: (result) => result === 42 || `Expected 42, got ${result}`,
+      });
+
+      const [wrong, right] = bench.results;
+      assert.strictEqual(wrong!.status, "failed");
+      assert.strictEqual(wrong!.error, "Expected 42, got 41");
+      assert.strictEqual(right!.status, "completed");
+    });
+
+    it("should fail tests with failing hooks", async () => {
+      const bench = new Benchmark();
+      bench.test("Before", () => 42, {
+        beforeAll: () => {
+          throw new Error("beforeAll");
+        },
+      });
+      bench.test("Each", () => 42, {
+        afterEach: () => {
+          throw new Error("afterEach");
+        },
+      });
+      bench.test("After", () => 42, {
+        afterAll: () => {
+          throw new Error("afterAll");
+        },
+      });
+      bench.test("Works", () => 42);
+
+      await bench.run(5, { verbosity: 0 });
+
+      const [before, each, after, works] = bench.results;
+      assert.strictEqual(before!.error, "beforeAll");
+      assert.strictEqual(before!.samples.length, 0);
+      assert.strictEqual(each!.error, "afterEach");
+      assert.strictEqual(each!.samples.length, 0);
+      assert.strictEqual(after!.error, "afterAll");
+      assert.strictEqual(after!.samples.length, 5);
+      assert.strictEqual(works!.status, "completed");
+    });
+
+    it("should fail tests that throw while finding a batch size", async () => {
+      const bench = new Benchmark();
+      bench.test("Throws", () => {
+        throw new Error("Nope");
+      });
+      bench.test("Works", () => 42);
+
+      await bench.run(5, { verbosity: 0, batchSize: "auto" });
+
+      const [throws, works] = bench.results;
+      assert.strictEqual(throws!.status, "failed");
+      assert.strictEqual(works!.status, "completed");
+      assert.ok(works!.batchSize! >= 1);
+    });
+
+    it("should stop the run on the first failure with bail", async () => {
+      const bench = new Benchmark();
+      bench.params({ size: [1, 2] });
+      bench.test("Throws", () => {
+        throw new Error("Nope");
+      });
+      bench.test("Works", () => 42);
+
+      await bench.run(1000, { verbosity: 0, bail: true });
+
+      assert.strictEqual(bench.results.length, 2);
+      const [throws, works] = bench.results;
+      assert.strictEqual(throws!.status, "failed");
+      assert.strictEqual(throws!.error, "Nope");
+      assert.strictEqual(works!.status, undefined);
+      assert.strictEqual(works!.meanTime, undefined);
+    });
+  });
+
+  describe("Isolation", () => {
+    const testDir = mkdtempSync(join(tmpdir(), "gud-bench-"));
+    const modulePath = join(testDir, "isolated.mjs");
+    writeFileSync(
+      modulePath,
+      `
+        let data;
+        export function setup({ size = 10 }) {
+          data = Array.from({ length: size }, (_, i) => i);
+        }
+        export function sum() {
+          return data.reduce((a, b) => a + b, 0);
+        }
+        export function fail() {
+          throw new Error("Nope");
+        }
+        export default () => 42;
+      `,
+    );
+
+    after(() => rmSync(testDir, { recursive: true, force: true }));
+
+    for (const isolation of ["worker", "process"] as const) {
+      it(`should run tests from modules in a ${isolation}`, async () => {
+        const bench = new Benchmark();
+        bench.params({ size: [10, 100] });
+        bench.test("Sum", () => 0, { source: { module: modulePath, export: "sum" } });
+        bench.test("Default", () => 0, { source: { module: modulePath } });
+
+        await bench.run(20, { verbosity: 0, isolation, preheat: 10 });
+
+        assert.strictEqual(bench.results.length, 4);
+        for (const result of bench.results) {
+          assert.strictEqual(result.samples.length, 20);
+          assert.ok(result.meanTime! > 0);
+          assert.ok(result.gc);
+        }
+      });
+    }
+
+    it("should warm up isolated tests automatically", async () => {
+      const bench = new Benchmark();
+      bench.test("Sum", () => 0, { source: { module: modulePath, export: "sum" } });
+
+      await bench.run(5, { verbosity: 0, isolation: "worker", preheat: "auto", preheatTime: 50 });
+
+      const [result] = bench.results;
+      assert.ok(result!.warmup!.samples.length > 0);
+      assert.strictEqual(result!.samples.length, 5);
+    });
+
+    it("should mark isolated tests that fail", async () => {
+      const bench = new Benchmark();
+      bench.test("Fail", () => 0, { source: { module: modulePath, export: "fail" } });
+      bench.test("Sum", () => 0, { source: { module: modulePath, export: "sum" } });
+
+      await bench.run(5, { verbosity: 0, isolation: "worker" });
+
+      const [fail, sum] = bench.results;
+      assert.strictEqual(fail!.status, "failed");
+      assert.strictEqual(fail!.error, "Nope");
+      assert.strictEqual(fail!.meanTime, undefined);
+      assert.strictEqual(sum!.status, "completed");
+      assert.strictEqual(sum!.samples.length, 5);
+    });
+
+    it("should stop isolated tests when aborted", async () => {
+      const bench = new Benchmark();
+      const controller = new AbortController();
+      bench.test("Sum", () => 0, { source: { module: modulePath, export: "sum" } });
+      bench.test("Default", () => 0, { source: { module: modulePath } });
+      controller.abort();
+
+      await bench.run(20, { verbosity: 0, isolation: "worker", signal: controller.signal });
+
+      for (const result of bench.results) {
+        assert.strictEqual(result.status, "aborted");
+      }
+    });
+
+    it("should reject tests that can't be isolated", async () => {
+      const bench = new Benchmark();
+      bench.test("Inline", () => 42);
+      await assert.rejects(bench.run(5, { verbosity: 0, isolation: "worker" }), /source module/);
+
+      const sourced = new Benchmark();
+      sourced.test("Sourced", () => 42, { source: { module: modulePath } });
+      await assert.rejects(
+        sourced.run(5, { verbosity: 0, isolation: "worker", value: () => 1 }),
+        /Value factories/,
+      );
+      sourced.beforeEach(() => {});
+      await assert.rejects(
+        sourced.run(5, { verbosity: 0, isolation: "process" }),
+        /beforeEach and afterEach/,
+      );
+    });
+  });
+
+  describe("Hooks", () => {
+    it("should call suite and test hooks in order", async () => {
+      const bench = new Benchmark();
+      const calls: string[] = [];
+      bench
+        .beforeAll(() => calls.push("suite beforeAll"))
+        .afterAll(() => calls.push("suite afterAll"))
+        .beforeEach(() => calls.push("suite beforeEach"))
+        .afterEach(() => calls.push("suite afterEach"))
+        .test("Test", () => calls.push("test"), {
+          beforeAll: () => calls.push("test beforeAll"),
+          afterAll: () => calls.push("test afterAll"),
+          beforeEach: () => calls.push("test beforeEach"),
+          afterEach: () => calls.push("test afterEach"),
+        });
+
+      await bench.run(2, { verbosity: 0 });
+
+      const sample = [
+        "suite beforeEach",
+        "test beforeEach",
+        "test",
+        "test afterEach",
+        "suite afterEach",
+      ];
+      assert.deepStrictEqual(calls, [
+        "suite beforeAll",
+        "test beforeAll",
+        ...sample,
+        ...sample,
+        "test afterAll",
+        "suite afterAll",
+      ]);
+    });
+
+    it("should only call test hooks for their own test", async () => {
+      const bench = new Benchmark();
+      let beforeEachCount = 0;
+      bench.test("With hooks", () => 42, { beforeEach: () => beforeEachCount++ });
+      bench.test("Without hooks", () => 42);
+
+      await bench.run(5, { verbosity: 0 });
+
+      assert.strictEqual(beforeEachCount, 5);
+    });
+
+    it("should support hooks on unnamed tests", async () => {
+      const bench = new Benchmark();
+      let afterAllCount = 0;
+      bench.test(() => 42, { afterAll: () => afterAllCount++ });
+
+      await bench.run(5, { verbosity: 0 });
+
+      assert.strictEqual(bench.results[0].name, "Test 1");
+      assert.strictEqual(afterAllCount, 1);
+    });
+
+    it("should await async hooks", async () => {
+      const bench = new Benchmark();
+      let ready = false;
+      let readyCount = 0;
+      bench.beforeEach(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        ready = true;
+      });
+      bench.afterEach(() => {
+        ready = false;
+      });
+      bench.test("Test", () => ready && readyCount++);
+
+      await bench.run(5, { verbosity: 0 });
+
+      assert.strictEqual(readyCount, 5);
+    });
+
+    it("should not time hooks", async () => {
+      const bench = new Benchmark();
+      const wait = () => new Promise((resolve) => setTimeout(resolve, 10));
+      bench.beforeEach(wait).afterEach(wait);
+      bench.test("Test", () => 42);
+
+      await bench.run(5, { verbosity: 0 });
+
+      assert.ok(bench.results[0].maxTime! < 10);
+    });
+
+    it("should call afterAll hooks when a run fails", async () => {
+      const bench = new Benchmark();
+      let afterAllCount = 0;
+      bench.afterAll(() => afterAllCount++);
+      bench.test("Failing", () => 42, { afterAll: () => afterAllCount++ });
+
+      await bench.run(5, { verbosity: 0, validate: () => "Nope" });
+
+      assert.strictEqual(afterAllCount, 2);
+    });
+  });
+
   describe("Preheating", () => {
     it("should preheat tests", async () => {
       const bench = new Benchmark();
@@ -152,6 +1180,65 @@ describe("Benchmark", () => {
       assert.strictEqual(bench.results.length, 1);
     });
 
+    it("should preheat within the run's hooks and batches", async () => {
+      const bench = new Benchmark();
+      const calls: string[] = [];
+      bench.beforeAll(() => void calls.push("beforeAll"));
+      bench.afterAll(() => void calls.push("afterAll"));
+      bench.beforeEach(() => void calls.push("beforeEach"));
+      bench.test("Test", () => void calls.push("call"));
+
+      await bench.run(1, { verbosity: 0, preheat: 4, batchSize: 2 });
+
+      const batch = ["beforeEach", "call", "call"];
+      assert.deepStrictEqual(calls, ["beforeAll", ...batch, ...batch, ...batch, "afterAll"]);
+      assert.strictEqual(bench.results[0]!.samples.length, 1);
+    });
+
+    it("should warm up until times stabilize with preheat: 'auto'", async () => {
+      const bench = new Benchmark();
+      bench.test("Steady", () => {
+        const end = performance.now() + 0.05;
+        while (performance.now() < end) {}
+      });
+
+      await bench.run(5, { verbosity: 0, preheat: "auto", batchSize: 4 });
+
+      const [result] = bench.results;
+      const { samples, steadyState } = result!.warmup!;
+      assert.ok(samples.length >= 60);
+      assert.ok(steadyState !== undefined);
+      assert.ok(steadyState <= samples.length - 60);
+      assert.strictEqual(result!.samples.length, 5);
+    });
+
+    it("should stop warming up after the preheat time", async () => {
+      const bench = new Benchmark();
+      let delay = 0;
+      bench.test("Slowing down", () => {
+        const end = performance.now() + (delay += 0.01);
+        while (performance.now() < end) {}
+      });
+
+      const start = performance.now();
+      await bench.run(5, { verbosity: 0, preheat: "auto", preheatTime: 50 });
+
+      const { samples, steadyState } = bench.results[0]!.warmup!;
+      assert.ok(samples.length > 0);
+      assert.strictEqual(steadyState, undefined);
+      assert.ok(performance.now() - start < 1000);
+    });
+
+    it("should reject invalid preheat times", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+
+      await assert.rejects(
+        bench.run(5, { verbosity: 0, preheat: "auto", preheatTime: 0 }),
+        /Preheat time/,
+      );
+    });
+
     it("should inherit GC strategy in preheat", async () => {
       const bench = new Benchmark();
       bench.test("GC test", () => 42);
@@ -167,6 +1254,51 @@ describe("Benchmark", () => {
     });
   });
 
+  describe("Calibration", () => {
+    it("should measure the timer resolution and overhead", async () => {
+      const bench = new Benchmark();
+
+      await bench.calibrate({ iterations: 100, verbosity: 0 });
+
+      assert.ok(bench.calibration);
+      assert.ok(bench.calibration.timerResolution > 0);
+      assert.ok(bench.calibration.overhead >= 0);
+    });
+
+    it("should calibrate automatically on the first run", async () => {
+      const bench = new Benchmark();
+      bench.test("Calibrated", () => 42);
+
+      await bench.run(5, { verbosity: 0 });
+
+      assert.ok(bench.calibration);
+      assert.strictEqual(bench.results[0].overhead, undefined);
+    });
+
+    it("should subtract the overhead from samples", async () => {
+      const bench = new Benchmark();
+      bench.test("Subtracted", () => 42);
+      await bench.calibrate({ iterations: 100, verbosity: 0 });
+      bench.calibration!.overhead = 1e6;
+
+      await bench.run(5, { verbosity: 0, subtractOverhead: true });
+
+      assert.strictEqual(bench.results[0].overhead, 1e6);
+      assert.ok(bench.results[0].samples.every((sample) => sample === 0));
+    });
+
+    it("should warn about tests near the timer resolution", async () => {
+      const bench = new Benchmark();
+      bench.test("Too fast", () => 42);
+      await bench.calibrate({ iterations: 100, verbosity: 0 });
+      bench.calibration!.timerResolution = 1e6;
+
+      await bench.run(5, { verbosity: 0 });
+
+      assert.match(bench.results[0].warnings?.[0] ?? "", /timer resolution/);
+    });
+  });
+
   describe("Results and statistics", () => {
     it("should calculate basic statistics", async () => {
       const bench = new Benchmark();
@@ -187,6 +1319,205 @@ describe("Benchmark", () => {
       assert.ok(result.opsPerSecond > 0);
     });
 
+    it("should calculate order statistics", async () => {
+      const bench = new Benchmark();
+      bench.test("Distribution test", () => Math.random());
+
+      await bench.run(50, { verbosity: 0 });
+
+      const result = bench.results[0];
+      const sorted = result.samples.toSorted((a, b) => a - b);
+      assert.strictEqual(result.minTime, sorted[0]);
+      assert.strictEqual(result.maxTime, sorted[sorted.length - 1]);
+      assert.ok(result.medianTime !== undefined);
+      assert.ok(result.percentiles !== undefined);
+      assert.ok(result.minTime! <= result.medianTime);
+      assert.ok(result.medianTime <= result.percentiles.p75);
+      assert.ok(result.percentiles.p75 <= result.percentiles.p90);
+      assert.ok(result.percentiles.p90 <= result.percentiles.p95);
+      assert.ok(result.percentiles.p95 <= result.percentiles.p99);
+      assert.ok(result.percentiles.p99 <= result.percentiles.p999);
+      assert.ok(result.percentiles.p999 <= result.maxTime!);
+      assert.ok(result.interquartileRange !== undefined && result.interquartileRange >= 0);
+      assert.strictEqual(result.coefficientOfVariation, result.stdDeviation! / result.meanTime!);
+    });
+
+    it("should calculate the margin of error at the requested confidence level", async () => {
+      const bench = new Benchmark();
+      bench.test("Confidence test", () => Math.random());
+
+      await bench.run(20, { verbosity: 0, confidence: 0.99, outliers: "none" });
+
+      const result = bench.results[0];
+      const expected = getTCritical(19, 0.99) * (result.stdDeviation! / Math.sqrt(20));
+      assert.strictEqual(result.confidence, 0.99);
+      assert.ok(Math.abs(result.marginOfError! - expected) < 1e-12);
+    });
+
+    it("should reject invalid confidence levels", async () => {
+      const bench = new Benchmark();
+      bench.test("Confidence test", () => 42);
+
+      await assert.rejects(bench.run(5, { verbosity: 0, confidence: 95 }), /between 0 and 1/);
+    });
+
+    it("should estimate bootstrap confidence intervals", async () => {
+      const bench = new Benchmark();
+      bench.test("Bootstrap test", () => Math.random());
+
+      await bench.run(50, { verbosity: 0, estimator: "bootstrap", seed: 42 });
+
+      const result = bench.results[0];
+      assert.strictEqual(bench.seed, 42);
+      assert.strictEqual(result.estimator, "bootstrap");
+      assert.ok(result.meanInterval && result.medianInterval);
+      assert.ok(result.meanInterval.lower <= result.meanInterval.upper);
+      assert.ok(result.medianInterval.lower <= result.medianInterval.upper);
+      assert.strictEqual(
+        result.marginOfError,
+        (result.meanInterval.upper - result.meanInterval.lower) / 2,
+      );
+    });
+
+    it("should default to parametric confidence intervals", async () => {
+      const bench = new Benchmark();
+      bench.test("Parametric test", () => Math.random());
+
+      await bench.run(20, { verbosity: 0 });
+
+      const result = bench.results[0];
+      assert.strictEqual(result.estimator, "parametric");
+      assert.strictEqual(result.medianInterval, undefined);
+      assert.strictEqual(result.meanInterval?.lower, result.meanTime! - result.marginOfError!);
+      assert.ok(typeof bench.seed === "number");
+    });
+
+    it("should count outliers", async () => {
+      const bench = new Benchmark();
+      let calls = 0;
+      bench.test("Spiky test", () => {
+        // Every 10th call is much slower than the rest
+        if (++calls % 10 === 0) {
+          const end = performance.now() + 2;
+          while (performance.now() < end) {}
+        }
+        return calls;
+      });
+
+      await bench.run(50, { verbosity: 0 });
+
+      const { outliers } = bench.results[0];
+      assert.ok(outliers);
+      assert.strictEqual(outliers.method, "tukey");
+      assert.strictEqual(outliers.excluded, false);
+      assert.ok(outliers.mild + outliers.severe >= 5);
+    });
+
+    it("should exclude outliers from the mean when requested", async () => {
+      const bench = new Benchmark();
+      let calls = 0;
+      bench.test("Spiky test", () => {
+        if (++calls % 10 === 0) {
+          const end = performance.now() + 2;
+          while (performance.now() < end) {}
+        }
+        return calls;
+      });
+
+      await bench.run(50, { verbosity: 0, outliers: "mad", excludeOutliers: true });
+
+      const result = bench.results[0];
+      assert.strictEqual(result.outliers?.method, "mad");
+      assert.strictEqual(result.outliers?.excluded, true);
+      assert.strictEqual(result.samples.length, 50);
+      assert.ok(result.meanTime! < result.totalTime / result.samples.length);
+      assert.ok(result.meanTime! < 2);
+    });
+
+    it("should skip outlier detection when disabled", async () => {
+      const bench = new Benchmark();
+      bench.test("No outliers", () => 42);
+
+      await bench.run(10, { verbosity: 0, outliers: "none" });
+
+      assert.strictEqual(bench.results[0].outliers, undefined);
+    });
+
+    it("should compare tests to the fastest one", async () => {
+      const bench = new Benchmark();
+      bench.test("Fast", () => 42);
+      bench.test("Slow", () => {
+        const end = performance.now() + 0.2;
+        while (performance.now() < end) {}
+      });
+
+      for (const significanceTest of ["welch", "mann-whitney"] as const) {
+        // Leave out GC pauses, which can swamp the difference for Welch's test
+        await bench.run(30, { verbosity: 0, significanceTest, excludeOutliers: true });
+
+        const fast = bench.results.find((result) => result.name === "Fast")!;
+        const slow = bench.results.find((result) => result.name === "Slow")!;
+        assert.strictEqual(fast.comparison?.method, significanceTest);
+        assert.strictEqual(fast.comparison?.baseline, "Fast");
+        assert.strictEqual(fast.comparison?.group, 1);
+        assert.strictEqual(fast.comparison?.significant, false);
+        assert.strictEqual(slow.comparison?.baseline, "Fast");
+        assert.strictEqual(slow.comparison?.significant, true);
+        assert.strictEqual(slow.comparison?.group, 2);
+        assert.ok(slow.comparison.pValue < 0.05);
+        assert.ok(slow.comparison.effectSize > 0);
+      }
+    });
+
+    it("should calculate speedups relative to the fastest test", async () => {
+      const bench = new Benchmark();
+      bench.test("Fast", () => 42);
+      bench.test("Slow", () => {
+        const end = performance.now() + 0.2;
+        while (performance.now() < end) {}
+      });
+
+      await bench.run(20, { verbosity: 0 });
+
+      const fast = bench.results.find((result) => result.name === "Fast")!;
+      const slow = bench.results.find((result) => result.name === "Slow")!;
+      assert.deepStrictEqual(fast.relative, { baseline: "Fast", speedup: 1, marginOfError: 0 });
+      assert.strictEqual(slow.relative?.baseline, "Fast");
+      assert.strictEqual(slow.relative.speedup, fast.meanTime! / slow.meanTime!);
+      assert.ok(slow.relative.speedup < 1);
+      assert.ok(slow.relative.marginOfError > 0);
+    });
+
+    it("should calculate speedups relative to a baseline test", async () => {
+      const bench = new Benchmark();
+      bench.test("Fast", () => 42);
+      bench.test("Slow", () => {
+        const end = performance.now() + 0.2;
+        while (performance.now() < end) {}
+      });
+
+      await bench.run(20, { verbosity: 0, baselineTest: "Slow" });
+
+      const fast = bench.results.find((result) => result.name === "Fast")!;
+      assert.strictEqual(fast.relative?.baseline, "Slow");
+      assert.ok(fast.relative.speedup > 1);
+
+      await assert.rejects(
+        bench.run(5, { verbosity: 0, baselineTest: "Missing" }),
+        /Baseline test not found/,
+      );
+    });
+
+    it("should skip comparisons when disabled", async () => {
+      const bench = new Benchmark();
+      bench.test("A", () => 1);
+      bench.test("B", () => 2);
+
+      await bench.run(10, { verbosity: 0, significanceTest: "none" });
+
+      assert.ok(bench.results.every((result) => result.comparison === undefined));
+    });
+
     it("should export results to JSON", async () => {
       const bench = new Benchmark("Export Test");
       bench.test("Export test", () => 42);
@@ -215,6 +1546,243 @@ describe("Benchmark", () => {
       // (We'll skip actually writing the file to avoid filesystem dependencies)
       assert.ok(typeof bench.exportToJson === "function");
     });
+
+    it("should export the seed", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+      await bench.run(5, { verbosity: 0, seed: 42 });
+
+      const dir = mkdtempSync(join(tmpdir(), "gud-bench-"));
+      try {
+        const filePath = join(dir, "results.json");
+        bench.exportToJson(filePath);
+        const data = JSON.parse(readFileSync(filePath, "utf8"));
+        assert.strictEqual(data.seed, 42);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should export the schema version, run options and environment", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+      await bench.run(5, {
+        verbosity: 0,
+        seed: 42,
+        value: () => 1,
+        signal: new AbortController().signal,
+      });
+
+      const dir = mkdtempSync(join(tmpdir(), "gud-bench-"));
+      try {
+        const filePath = join(dir, "results.json");
+        bench.exportToJson(filePath);
+        const data = JSON.parse(readFileSync(filePath, "utf8"));
+
+        assert.strictEqual(data.schemaVersion, RESULTS_SCHEMA_VERSION);
+        assert.ok(!Number.isNaN(Date.parse(data.timestamp)));
+        assert.deepStrictEqual(data.options, { iterations: 5, verbosity: 0, seed: 42 });
+        assert.strictEqual(data.environment.nodeVersion, process.version);
+        assert.strictEqual(typeof data.environment.gcExposed, "boolean");
+        assert.deepStrictEqual(loadResults(filePath), data);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should leave out non-finite options when exporting", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+      await bench.run(5, { verbosity: 0, seed: 1, maxSamples: Infinity, timeout: Infinity });
+
+      const dir = mkdtempSync(join(tmpdir(), "gud-bench-"));
+      try {
+        const filePath = join(dir, "results.json");
+        bench.exportToJson(filePath);
+
+        assert.deepStrictEqual(loadResults(filePath).options, {
+          iterations: 5,
+          verbosity: 0,
+          seed: 1,
+        });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Baseline comparison", () => {
+    // Samples spread evenly around a mean time
+    const makeResult = (name: string, meanTime: number, params?: Params): TestResult => {
+      const samples = Array.from({ length: 50 }, (_, i) => meanTime * (0.95 + (i % 10) / 100));
+      return {
+        name,
+        ...(params && { params }),
+        samples,
+        totalTime: samples.reduce((sum, time) => sum + time, 0),
+      };
+    };
+
+    it("should give each test a verdict", () => {
+      const bench = new Benchmark();
+      bench.results = [makeResult("Slower", 2), makeResult("Same", 1), makeResult("Faster", 0.5)];
+
+      const comparisons = bench.compareTo(
+        {
+          name: "Main",
+          results: [makeResult("Slower", 1), makeResult("Same", 1), makeResult("Faster", 1)],
+        },
+        { verbosity: 0 },
+      );
+
+      const byName = Object.fromEntries(
+        comparisons.map((comparison) => [comparison.name, comparison]),
+      );
+      assert.strictEqual(byName.Slower!.verdict, "slower");
+      assert.ok(Math.abs(byName.Slower!.change - 1) < 1e-9);
+      assert.ok(byName.Slower!.marginOfError > 0);
+      assert.ok(byName.Slower!.pValue! < 0.05);
+      assert.strictEqual(byName.Same!.verdict, "unchanged");
+      assert.ok(Math.abs(byName.Same!.change) < 1e-9);
+      assert.strictEqual(byName.Faster!.verdict, "faster");
+      assert.ok(Math.abs(byName.Faster!.change + 0.5) < 1e-9);
+    });
+
+    it("should match tests by name and parameters", () => {
+      const bench = new Benchmark();
+      bench.results = [
+        makeResult("Test", 1, { size: 10 }),
+        makeResult("Test", 2, { size: 100 }),
+        makeResult("New", 1),
+      ];
+
+      const comparisons = bench.compareTo(
+        {
+          name: "Main",
+          results: [
+            makeResult("Test", 2, { size: 100 }),
+            makeResult("Test", 1, { size: 10 }),
+            makeResult("Old", 1),
+          ],
+        },
+        { verbosity: 0 },
+      );
+
+      assert.deepStrictEqual(
+        comparisons.map(({ params, verdict }) => [params, verdict]),
+        [
+          [{ size: 10 }, "unchanged"],
+          [{ size: 100 }, "unchanged"],
+        ],
+      );
+    });
+
+    it("should not call a change without enough samples", () => {
+      const bench = new Benchmark();
+      bench.results = [{ name: "Test", samples: [2], totalTime: 2 }];
+
+      const [comparison] = bench.compareTo(
+        { name: "Main", results: [{ name: "Test", samples: [1], totalTime: 1 }] },
+        { verbosity: 0 },
+      );
+
+      assert.strictEqual(comparison!.verdict, "unchanged");
+      assert.strictEqual(comparison!.pValue, undefined);
+      assert.strictEqual(comparison!.change, 1);
+    });
+
+    it("should compare to an exported file", async () => {
+      const bench = new Benchmark();
+      bench.test("Test", () => 42);
+      await bench.run(20, { verbosity: 0 });
+
+      const dir = mkdtempSync(join(tmpdir(), "gud-bench-"));
+      try {
+        const filePath = join(dir, "baseline.json");
+        bench.exportToJson(filePath);
+        const [comparison] = bench.compareTo(filePath, { verbosity: 0 });
+
+        assert.strictEqual(comparison!.verdict, "unchanged");
+        assert.strictEqual(comparison!.change, 0);
+        assert.strictEqual(comparison!.meanTime, bench.results[0]!.meanTime);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should mark tests that slow down past their threshold as regressions", () => {
+      const bench = new Benchmark();
+      bench.results = [
+        makeResult("Doubled", 2),
+        makeResult("Slightly", 1.05),
+        makeResult("Exempt", 2),
+      ];
+
+      const comparisons = bench.compareTo(
+        {
+          name: "Main",
+          results: [makeResult("Doubled", 1), makeResult("Slightly", 1), makeResult("Exempt", 1)],
+        },
+        { threshold: 0.1, thresholds: { Exempt: 2 }, verbosity: 0 },
+      );
+
+      const byName = Object.fromEntries(
+        comparisons.map((comparison) => [comparison.name, comparison]),
+      );
+      assert.strictEqual(byName.Doubled!.regression, true);
+      assert.strictEqual(byName.Slightly!.verdict, "slower");
+      assert.strictEqual(byName.Slightly!.regression, false);
+      assert.strictEqual(byName.Exempt!.threshold, 2);
+      assert.strictEqual(byName.Exempt!.regression, false);
+    });
+
+    it("should not count a regression when the confidence intervals overlap", () => {
+      // Far more spread than the difference in means
+      const noisy = (name: string, meanTime: number): TestResult => {
+        const samples = Array.from({ length: 10 }, (_, i) => meanTime * (i % 2 ? 0.2 : 1.8));
+        return { name, samples, totalTime: meanTime * 10 };
+      };
+      const bench = new Benchmark();
+      bench.results = [noisy("Test", 1.5)];
+
+      const [comparison] = bench.compareTo(
+        { name: "Main", results: [noisy("Test", 1)] },
+        { threshold: 0.1, verbosity: 0 },
+      );
+
+      assert.ok(comparison!.change > 0.1);
+      assert.ok(comparison!.meanInterval!.lower < comparison!.baselineInterval!.upper);
+      assert.strictEqual(comparison!.regression, false);
+    });
+
+    it("should not mark regressions without a threshold", () => {
+      const bench = new Benchmark();
+      bench.results = [makeResult("Test", 2)];
+
+      const [comparison] = bench.compareTo(
+        { name: "Main", results: [makeResult("Test", 1)] },
+        { verbosity: 0 },
+      );
+
+      assert.strictEqual(comparison!.regression, undefined);
+      assert.strictEqual(comparison!.threshold, undefined);
+    });
+
+    it("should reject invalid baselines", () => {
+      const bench = new Benchmark();
+      assert.throws(
+        () => bench.compareTo({ name: "Main" } as BenchmarkData, { verbosity: 0 }),
+        /Invalid results/,
+      );
+      assert.throws(
+        () => bench.compareTo({ name: "Main", results: [] }, { confidence: 2 }),
+        /Confidence level must be between 0 and 1/,
+      );
+      assert.throws(
+        () => bench.compareTo({ name: "Main", results: [] }, { threshold: -1 }),
+        /Regression threshold must be a non-negative number/,
+      );
+    });
   });
 
   describe("Error handling", () => {
@@ -0,0 +1,43 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { getTCritical } from "#src/lib/utils/getTCritical";
+import { RunningStats } from "#src/lib/utils/RunningStats";
+
+describe("RunningStats", () => {
+  const samples = [2, 4, 4, 4, 5, 5, 7, 9];
+
+  it("should calculate the mean and variance incrementally", () => {
+    const stats = new RunningStats();
+    for (const sample of samples) stats.push(sample);
+
+    assert.strictEqual(stats.count, 8);
+    assert.strictEqual(stats.mean, 5);
+    assert.ok(Math.abs(stats.variance - 32 / 7) < 1e-12);
+    assert.ok(Math.abs(stats.stdDeviation - Math.sqrt(32 / 7)) < 1e-12);
+  });
+
+  it("should calculate the relative margin of error", () => {
+    const stats = new RunningStats();
+    for (const sample of samples) stats.push(sample);
+
+    const expected = (getTCritical(7, 0.95) * Math.sqrt(32 / 7)) / Math.sqrt(8) / 5;
+    assert.ok(Math.abs(stats.getRelativeMarginOfError(0.95) - expected) < 1e-12);
+  });
+
+  it("should never underestimate the margin of error with a cached t-value", () => {
+    const stats = new RunningStats();
+    for (let i = 0; i < 100; i++) stats.push(i % 2);
+    stats.getRelativeMarginOfError(0.95);
+    stats.push(1);
+
+    const exact = (getTCritical(100, 0.95) * stats.stdDeviation) / Math.sqrt(101) / stats.mean;
+    assert.ok(stats.getRelativeMarginOfError(0.95) >= exact);
+  });
+
+  it("should handle too few samples", () => {
+    const stats = new RunningStats();
+    assert.strictEqual(stats.variance, 0);
+    stats.push(1);
+    assert.strictEqual(stats.getRelativeMarginOfError(0.95), Infinity);
+  });
+});
@@ -138,6 +138,34 @@ describe("CLI Integration", () => {
       assert.match(result.stdout, /default-export/);
       assert.match(result.stdout, /Total time:/);
     });
+    it("should load setup and teardown exports as hooks", async () => {
+      const testFile = join(testDir, "hooks.js");
+      const testContent = `
+        let data;
+
+        export function setup() {
+          data = Array.from({ length: 100 }, (_, i) => i);
+        }
+
+        export function teardown() {
+          data = undefined;
+        }
+
+        export function sum() {
+          return data.reduce((a, b) => a + b, 0);
+        }
+      `;
+
+      writeFileSync(testFile, testContent);
+
+      const result = await runCli(["run", "--files", testFile, "--runs", "30", "--verbosity", "1"]);
+
+      assert.strictEqual(result.code, 0);
+      assert.strictEqual(result.stderr, "");
+      assert.match(result.stdout, /sum/);
+      assert.doesNotMatch(result.stdout, /#setup/);
+      assert.doesNotMatch(result.stdout, /#teardown/);
+    });
   });
 
   describe("TypeScript File Benchmarking", () => {
@@ -231,6 +259,132 @@ describe("CLI Integration", () => {
       assert.match(result.stdout, /Cycle/);
     });
 
+    it("should handle confidence option", async () => {
+      const testFile = join(testDir, "confidence-test.js");
+      writeFileSync(testFile, `export function confidenceTest() { return Math.random(); }`);
+
+      const result = await runCli([
+        "run",
+        "--files",
+        testFile,
+        "--runs",
+        "20",
+        "--confidence",
+        "0.99",
+        "--verbosity",
+        "2",
+      ]);
+
+      assert.strictEqual(result.code, 0);
+      assert.strictEqual(result.stderr, "");
+      assert.match(result.stdout, /Confidence level: 99%/);
+      assert.match(result.stdout, /99% CI/);
+    });
+
+    it("should handle subtractOverhead option", async () => {
+      const testFile = join(testDir, "overhead-test.js");
+      writeFileSync(testFile, `export function overheadTest() { return 42; }`);
+
+      const result = await runCli([
+        "run",
+        "--files",
+        testFile,
+        "--runs",
+        "20",
+        "--subtractOverhead",
+        "true",
+        "--verbosity",
+        "2",
+      ]);
+
+      assert.strictEqual(result.code, 0);
+      assert.strictEqual(result.stderr, "");
+      assert.match(result.stdout, /Timer resolution/);
+      assert.match(result.stdout, /\(subtracted\)/);
+    });
+
+    it("should handle batchSize option", async () => {
+      const testFile = join(testDir, "batch-test.js");
+      writeFileSync(testFile, `export function batchTest() { return 42; }`);
+
+      const result = await runCli([
+        "run",
+        "--files",
+        testFile,
+        "--runs",
+        "20",
+        "--batchSize",
+        "auto",
+      ]);
+
+      assert.strictEqual(result.code, 0);
+      assert.strictEqual(result.stderr, "");
+      assert.match(result.stdout, /Batch Size/);
+    });
+
+    it("should handle time option", async () => {
+      const testFile = join(testDir, "time-test.js");
+      writeFileSync(testFile, `export function timeTest() { return 42; }`);
+
+      const result = await runCli(["run", "--files", testFile, "--time", "50", "--preheat", "0"]);
+
+      assert.strictEqual(result.code, 0);
+      assert.strictEqual(result.stderr, "");
+      assert.match(result.stdout, /for 50 ms each/);
+    });
+
+    it("should handle target-rme option", async () => {
+      const testFile = join(testDir, "target-rme-test.js");
+      writeFileSync(testFile, `export function targetRmeTest() { return 42; }`);
+
+      const result = await runCli([
+        "run",
+        "--files",
+        testFile,
+        "--target-rme",
+        "0.5",
+        "--time",
+        "100",
+        "--preheat",
+        "0",
+      ]);
+
+      assert.strictEqual(result.code, 0);
+      assert.strictEqual(result.stderr, "");
+      assert.match(result.stdout, /Converged/);
+    });
+
+    it("should handle isolation option", async () => {
+      const testFile = join(testDir, "isolation-test.js");
+      writeFileSync(
+        testFile,
+        `
+          let data;
+          export function setup() { data = [1, 2, 3]; }
+          export function isolationTest() { return data.length; }
+        `,
+      );
+
+      for (const isolation of ["worker", "process"]) {
+        const result = await runCli([
+          "run",
+          "--files",
+          testFile,
+          "--runs",
+          "20",
+          "--preheat",
+          "10",
+          "--isolation",
+          isolation,
+        ]);
+
+        assert.strictEqual(result.code, 0);
+        assert.strictEqual(result.stderr, "");
+        assert.match(result.stdout, /isolationTest/);
+        assert.doesNotMatch(result.stdout, /failed/);
+      }
+    });
+
     it("should handle preheat option", async () => {
       const testFile = join(testDir, "preheat-test.js");
       const testContent = `export function preheatTest() { return 'preheated'; }`;
@@ -381,6 +535,22 @@ describe("CLI Integration", () => {
       // );
     });
 
+    it("should keep running other tests when one fails", async () => {
+      const testFile = join(testDir, "failing-test.js");
+      const testContent = `
+        export function works() { return 42; }
+        export function fails() { throw new Error("Nope"); }
+      `;
+      writeFileSync(testFile, testContent);
+
+      const result = await runCli(["run", "--files", testFile, "--runs", "10", "--preheat", "0"]);
+
+      assert.strictEqual(result.code, 1);
+      assert.match(result.stdout, /Nope/);
+      assert.match(result.stdout, /works/);
+      assert.match(result.stdout, /failed/);
+    });
+
     it("should handle syntax errors in files", async () => {
       const testFile = join(testDir, "syntax-error.js");
       const testContent = `export function broken( { return "broken"; }`;
@@ -393,6 +563,114 @@ describe("CLI Integration", () => {
     });
   });
 
+  describe("Baseline Comparison", () => {
+    // A baseline that's far faster than any real test
+    function writeBaseline(name: string) {
+      const baselineFile = join(testDir, `${name}-baseline.json`);
+      const samples = Array.from({ length: 20 }, (_, i) => 1e-6 * (1 + (i % 4) / 100));
+      writeFileSync(
+        baselineFile,
+        JSON.stringify({
+          name: "Benchmark",
+          results: [{ name, samples, totalTime: samples.reduce((sum, time) => sum + time) }],
+        }),
+      );
+      return baselineFile;
+    }
+
+    function writeSlowTest(name: string) {
+      const testFile = join(testDir, `${name}.js`);
+      writeFileSync(
+        testFile,
+        `export default function() {
+          let sum = 0;
+          for (let i = 0; i < 10000; i++) sum += i;
+          return sum;
+        }`,
+      );
+      return testFile;
+    }
+
+    it("should compare to a baseline", async () => {
+      const testFile = writeSlowTest("compared");
+      const baselineFile = writeBaseline("compared");
+
+      const result = await runCli([
+        "run",
+        "--files",
+        testFile,
+        "--runs",
+        "20",
+        "--baseline",
+        baselineFile,
+      ]);
+
+      assert.strictEqual(result.code, 0);
+      assert.match(result.stdout, /Compared to Benchmark/);
+      assert.match(result.stdout, /slower/);
+    });
+
+    it("should exit with a distinct code when a test regresses", async () => {
+      const testFile = writeSlowTest("regressed");
+      const baselineFile = writeBaseline("regressed");
+
+      const result = await runCli([
+        "run",
+        "--files",
+        testFile,
+        "--runs",
+        "20",
+        "--baseline",
+        baselineFile,
+        "--fail-on-regression",
+        "10",
+      ]);
+
+      assert.strictEqual(result.code, 3);
+      assert.match(result.stdout, /regressed past its threshold/);
+    });
+
+    it("should use per-test thresholds", async () => {
+      const testFile = writeSlowTest("thresholds");
+      const baselineFile = writeBaseline("thresholds");
+      const thresholdsFile = join(testDir, "thresholds.json");
+      writeFileSync(thresholdsFile, JSON.stringify({ thresholds: 1e12 }));
+
+      const result = await runCli([
+        "run",
+        "--files",
+        testFile,
+        "--runs",
+        "20",
+        "--baseline",
+        baselineFile,
+        "--fail-on-regression",
+        "10",
+        "--thresholds",
+        thresholdsFile,
+      ]);
+
+      assert.strictEqual(result.code, 0);
+    });
+
+    it("should require a baseline for regression thresholds", async () => {
+      const testFile = writeSlowTest("no-baseline");
+
+      const result = await runCli([
+        "run",
+        "--files",
+        testFile,
+        "--runs",
+        "20",
+        "--fail-on-regression",
+        "10",
+      ]);
+
+      assert.notStrictEqual(result.code, 0);
+      assert.match(result.stdout, /require a --baseline/);
+    });
+  });
+
   describe("Output Validation", () => {
     it("should produce valid benchmark table output", async () => {
       const testFile = join(testDir, "table-output.js");
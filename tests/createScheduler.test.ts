@@ -0,0 +1,65 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { createRandom } from "#src/lib/utils/createRandom";
+import { createScheduler, type Schedule } from "#src/lib/utils/createScheduler";
+
+/**
+ * Run a schedule over tests that each need a number of samples, removing
+ * tests from the queue as they finish, and return the order they ran in.
+ */
+function simulate(schedule: Schedule, samples: number[], seed = 1): number[] {
+  const nextTest = createScheduler(schedule, samples.length, createRandom(seed));
+  const queue = samples.map((runs, index) => ({ index, runs }));
+  const order: number[] = [];
+  while (queue.length) {
+    const i = nextTest(queue);
+    const test = queue[i]!;
+    order.push(test.index);
+    if (--test.runs === 0) queue.splice(i, 1);
+  }
+  return order;
+}
+
+describe("createScheduler", () => {
+  it("should pick random tests reproducibly", () => {
+    const order = simulate("random", [20, 20, 20]);
+    assert.deepStrictEqual(simulate("random", [20, 20, 20]), order);
+    assert.notDeepStrictEqual(simulate("random", [20, 20, 20], 2), order);
+    assert.notDeepStrictEqual(order.slice(0, 6), [0, 1, 2, 0, 1, 2]);
+  });
+
+  it("should take turns with round-robin", () => {
+    assert.deepStrictEqual(simulate("round-robin", [2, 1, 3]), [0, 1, 2, 0, 2, 2]);
+  });
+
+  it("should run tests one after another when blocked", () => {
+    assert.deepStrictEqual(simulate("blocked", [2, 1, 3]), [0, 0, 1, 2, 2, 2]);
+  });
+
+  it("should run each test in each position of a round equally often", () => {
+    const order = simulate("latin-square", [3, 3, 3]);
+    const rounds = [order.slice(0, 3), order.slice(3, 6), order.slice(6, 9)];
+
+    for (const round of rounds) {
+      assert.deepStrictEqual(round.toSorted(), [0, 1, 2]);
+    }
+    for (let position = 0; position < 3; position++) {
+      const tests = rounds.map((round) => round[position]!);
+      assert.deepStrictEqual(tests.toSorted(), [0, 1, 2]);
+    }
+    assert.deepStrictEqual(simulate("latin-square", [3, 3, 3]), order);
+  });
+
+  it("should skip finished tests in latin-square rounds", () => {
+    const order = simulate("latin-square", [1, 3, 3]);
+    assert.strictEqual(order.length, 7);
+    assert.strictEqual(order.filter((index) => index === 0).length, 1);
+  });
+
+  it("should throw for unknown schedules", () => {
+    assert.throws(
+      () => createScheduler("nope" as Schedule, 1, Math.random),
+      /Unknown schedule: nope/,
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { findSteadyState } from "#src/lib/utils/findSteadyState";
+
+describe("findSteadyState", () => {
+  const steady = Array.from({ length: 60 }, (_, i) => 1 + (i % 3) * 0.01);
+
+  it("should find the start of the steady windows", () => {
+    assert.strictEqual(findSteadyState(steady), 0);
+    assert.strictEqual(findSteadyState([10, 8, 6, ...steady]), 3);
+  });
+
+  it("should wait for enough samples", () => {
+    assert.strictEqual(findSteadyState(steady.slice(1)), undefined);
+    assert.strictEqual(findSteadyState([]), undefined);
+  });
+
+  it("should reject windows with changing means", () => {
+    const speedingUp = Array.from({ length: 60 }, (_, i) => 2 - i / 60);
+    assert.strictEqual(findSteadyState(speedingUp), undefined);
+    assert.strictEqual(findSteadyState(speedingUp, { meanTolerance: 1, spreadTolerance: 1 }), 0);
+  });
+
+  it("should reject windows with changing spreads", () => {
+    const settling = Array.from(
+      { length: 60 },
+      (_, i) => 1 + (i % 2 ? 1 : -1) * (i < 20 ? 0.04 : 0.01),
+    );
+    assert.strictEqual(findSteadyState(settling), undefined);
+    assert.strictEqual(findSteadyState(settling, { spreadTolerance: 0.8 }), 0);
+  });
+
+  it("should use the window options", () => {
+    assert.strictEqual(findSteadyState(steady.slice(0, 20), { windowSize: 10, windows: 2 }), 0);
+    assert.strictEqual(findSteadyState(steady, { windowSize: 10, windows: 2 }), 40);
+  });
+
+  it("should treat constant samples as steady", () => {
+    assert.strictEqual(findSteadyState(Array(60).fill(0)), 0);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { createRandom } from "#src/lib/utils/createRandom";
+import { getBootstrapIntervals } from "#src/lib/utils/getBootstrapIntervals";
+
+describe("getBootstrapIntervals", () => {
+  const sorted = Array.from({ length: 200 }, (_, i) => 1 + (i % 20) / 10 + (i > 190 ? 10 : 0)).sort(
+    (a, b) => a - b,
+  );
+  const mean = sorted.reduce((acc, value) => acc + value, 0) / sorted.length;
+
+  it("should contain the sample mean and median", () => {
+    const intervals = getBootstrapIntervals(sorted, {
+      confidence: 0.95,
+      resamples: 500,
+      random: createRandom(1),
+    });
+
+    assert.ok(intervals.mean.lower < mean && mean < intervals.mean.upper);
+    assert.ok(intervals.median.lower <= sorted[100]! && sorted[100]! <= intervals.median.upper);
+  });
+
+  it("should be reproducible with the same seed", () => {
+    const options = { confidence: 0.95, resamples: 200 };
+    const a = getBootstrapIntervals(sorted, { ...options, random: createRandom(42) });
+    const b = getBootstrapIntervals(sorted, { ...options, random: createRandom(42) });
+    const c = getBootstrapIntervals(sorted, { ...options, random: createRandom(43) });
+
+    assert.deepStrictEqual(a, b);
+    assert.notDeepStrictEqual(a, c);
+  });
+
+  it("should widen with the confidence level", () => {
+    const options = { resamples: 500 };
+    const narrow = getBootstrapIntervals(sorted, {
+      ...options,
+      confidence: 0.8,
+      random: createRandom(7),
+    });
+    const wide = getBootstrapIntervals(sorted, {
+      ...options,
+      confidence: 0.99,
+      random: createRandom(7),
+    });
+
+    assert.ok(wide.mean.upper - wide.mean.lower > narrow.mean.upper - narrow.mean.lower);
+  });
+
+  it("should throw for empty samples", () => {
+    assert.throws(
+      () => getBootstrapIntervals([], { confidence: 0.95, resamples: 10, random: Math.random }),
+      /empty/,
+    );
+  });
+});
+
+describe("createRandom", () => {
+  it("should return reproducible numbers in [0, 1)", () => {
+    const a = createRandom(123);
+    const b = createRandom(123);
+    for (let i = 0; i < 100; i++) {
+      const value = a();
+      assert.strictEqual(value, b());
+      assert.ok(value >= 0 && value < 1);
+    }
+  });
+});
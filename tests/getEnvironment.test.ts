@@ -0,0 +1,22 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { getEnvironment } from "#src/lib/utils/getEnvironment";
+
+describe("getEnvironment", () => {
+  it("should describe the current runtime and machine", () => {
+    const environment = getEnvironment();
+
+    assert.strictEqual(environment.nodeVersion, process.version);
+    assert.strictEqual(environment.v8Version, process.versions.v8);
+    assert.strictEqual(environment.platform, process.platform);
+    assert.strictEqual(environment.arch, process.arch);
+    assert.ok(environment.cpuCount >= 1);
+    assert.ok(environment.totalMemory > 0);
+    assert.strictEqual(environment.gcExposed, typeof globalThis.gc === "function");
+  });
+
+  it("should include the git commit in a repository", () => {
+    const { gitCommit } = getEnvironment();
+    if (gitCommit !== undefined) assert.match(gitCommit, /^[0-9a-f]{40,64}$/);
+  });
+});
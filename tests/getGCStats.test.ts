@@ -0,0 +1,35 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { getGCStats } from "#src/lib/utils/getGCStats";
+import type { GCEvent } from "#src/lib/utils/observeGC";
+
+describe("getGCStats", () => {
+  it("should charge GCs to the sample they started in", () => {
+    const events: GCEvent[] = [
+      { kind: "major", startTime: 25, duration: 3 },
+      { kind: "minor", startTime: 1, duration: 0.5 },
+      { kind: "minor", startTime: 22, duration: 1 },
+    ];
+    // Test 0 from 0 to 10, test 1 from 10 to 20, test 0 again from 20 to 30
+    const stats = getGCStats(events, [0, 0, 10, 1, 10, 20, 0, 20, 30], 2);
+
+    assert.deepStrictEqual(stats, [
+      {
+        count: 3,
+        kinds: { minor: 2, major: 1, incremental: 0, weakcb: 0 },
+        pauseTime: 4.5,
+      },
+      { count: 0, kinds: { minor: 0, major: 0, incremental: 0, weakcb: 0 }, pauseTime: 0 },
+    ]);
+  });
+
+  it("should leave out GCs between and after samples", () => {
+    const events: GCEvent[] = [
+      { kind: "minor", startTime: 15, duration: 1 },
+      { kind: "minor", startTime: 50, duration: 1 },
+    ];
+    const [stats] = getGCStats(events, [0, 0, 10, 0, 20, 30], 1);
+
+    assert.strictEqual(stats!.count, 0);
+  });
+});
@@ -0,0 +1,33 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { getOutlierFences } from "#src/lib/utils/getOutlierFences";
+
+describe("getOutlierFences", () => {
+  const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+  it("should calculate Tukey's fences from the quartiles", () => {
+    // Q1 = 3, Q3 = 7, IQR = 4
+    const fences = getOutlierFences(sorted, "tukey");
+    assert.deepStrictEqual(fences.mild, [-3, 13]);
+    assert.deepStrictEqual(fences.severe, [-9, 19]);
+  });
+
+  it("should calculate modified z-score fences from the MAD", () => {
+    // Median = 5, MAD = 2
+    const fences = getOutlierFences(sorted, "mad");
+    const scale = 2 * 1.482602218505602;
+    assert.ok(Math.abs(fences.mild[0] - (5 - 3.5 * scale)) < 1e-9);
+    assert.ok(Math.abs(fences.mild[1] - (5 + 3.5 * scale)) < 1e-9);
+    assert.ok(Math.abs(fences.severe[1] - (5 + 7 * scale)) < 1e-9);
+  });
+
+  it("should fall back to the mean absolute deviation when the MAD is 0", () => {
+    const fences = getOutlierFences([1, 1, 1, 1, 1, 2, 50], "mad");
+    assert.ok(fences.mild[1] > 1);
+    assert.ok(fences.mild[1] < 50);
+  });
+
+  it("should throw for unknown methods", () => {
+    assert.throws(() => getOutlierFences(sorted, "zscore" as any), /Unknown outlier method/);
+  });
+});
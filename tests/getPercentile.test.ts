@@ -0,0 +1,30 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { getPercentile } from "#src/lib/utils/getPercentile";
+
+describe("getPercentile", () => {
+  it("should return exact ranks without interpolation", () => {
+    const sorted = [1, 2, 3, 4, 5];
+    assert.strictEqual(getPercentile(sorted, 0), 1);
+    assert.strictEqual(getPercentile(sorted, 0.25), 2);
+    assert.strictEqual(getPercentile(sorted, 0.5), 3);
+    assert.strictEqual(getPercentile(sorted, 1), 5);
+  });
+
+  it("should interpolate between ranks", () => {
+    const sorted = [10, 20, 30, 40];
+    assert.strictEqual(getPercentile(sorted, 0.5), 25);
+    assert.strictEqual(getPercentile(sorted, 0.75), 32.5);
+    assert.ok(Math.abs(getPercentile(sorted, 0.9) - 37) < 1e-9);
+  });
+
+  it("should handle a single sample", () => {
+    assert.strictEqual(getPercentile([7], 0.99), 7);
+  });
+
+  it("should throw for empty samples or invalid percentiles", () => {
+    assert.throws(() => getPercentile([], 0.5), /empty/);
+    assert.throws(() => getPercentile([1, 2], 1.5), /between 0 and 1/);
+    assert.throws(() => getPercentile([1, 2], -0.1), /between 0 and 1/);
+  });
+});
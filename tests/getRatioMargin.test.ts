@@ -0,0 +1,54 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { getRatioMargin, getRelativeMeanError, getWelchDf } from "#src/lib/utils/getRatioMargin";
+
+function assertClose(actual: number, expected: number, tolerance = 1e-6) {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected)),
+    `expected ${actual} to be within ${tolerance} of ${expected}`,
+  );
+}
+
+describe("getRelativeMeanError", () => {
+  it("should divide the variance of the mean by the squared mean", () => {
+    assert.deepStrictEqual(getRelativeMeanError(8, 2, 2), { variance: 1, size: 2 });
+  });
+
+  it("should have no error for a mean of 0", () => {
+    assert.deepStrictEqual(getRelativeMeanError(8, 2, 0), { variance: 0, size: 2 });
+  });
+});
+
+describe("getWelchDf", () => {
+  it("should match reference values", () => {
+    // R: t.test(c(1, 2, 3, 4, 5), c(2, 4, 6, 8, 10))$parameter
+    assertClose(
+      getWelchDf({ variance: 2.5 / 5, size: 5 }, { variance: 10 / 5, size: 5 }),
+      5.882353,
+    );
+  });
+
+  it("should add the degrees of freedom of equal errors", () => {
+    const error = { variance: 0.01, size: 11 };
+    assertClose(getWelchDf(error, error), 20);
+  });
+});
+
+describe("getRatioMargin", () => {
+  it("should propagate both errors to the ratio", () => {
+    // t(20, 0.95) * 2 * sqrt(0.01 + 0.01)
+    const error = { variance: 0.01, size: 11 };
+    assertClose(getRatioMargin(2, error, error, 0.95), 2.085963 * 2 * Math.sqrt(0.02));
+  });
+
+  it("should have no margin without variance or enough samples", () => {
+    assert.strictEqual(
+      getRatioMargin(1, { variance: 0, size: 10 }, { variance: 0, size: 10 }, 0.95),
+      0,
+    );
+    assert.strictEqual(
+      getRatioMargin(1, { variance: 0.01, size: 1 }, { variance: 0.01, size: 10 }, 0.95),
+      0,
+    );
+  });
+});
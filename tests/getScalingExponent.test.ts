@@ -0,0 +1,44 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { getScalingExponent } from "#src/lib/utils/getScalingExponent";
+
+describe("getScalingExponent", () => {
+  it("should find the exponent of exact power laws", () => {
+    const sizes = [10, 100, 1000, 10000];
+    const constant = getScalingExponent(sizes.map((n) => [n, 5]));
+    const linear = getScalingExponent(sizes.map((n) => [n, 3 * n]));
+    const quadratic = getScalingExponent(sizes.map((n) => [n, 0.5 * n * n]));
+    assert.ok(Math.abs(constant) < 1e-12);
+    assert.ok(Math.abs(linear - 1) < 1e-12);
+    assert.ok(Math.abs(quadratic - 2) < 1e-12);
+  });
+
+  it("should fit noisy points", () => {
+    const exponent = getScalingExponent([
+      [10, 11],
+      [100, 95],
+      [1000, 1050],
+    ]);
+    assert.ok(Math.abs(exponent - 1) < 0.05);
+  });
+
+  it("should throw for points that can't be fit", () => {
+    assert.throws(() => getScalingExponent([[10, 1]]), /At least 2 points/);
+    assert.throws(
+      () =>
+        getScalingExponent([
+          [10, 1],
+          [0, 1],
+        ]),
+      /positive/,
+    );
+    assert.throws(
+      () =>
+        getScalingExponent([
+          [10, 1],
+          [10, 2],
+        ]),
+      /distinct/,
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import {
+  normalCdf,
+  normalQuantile,
+  studentTCdf,
+  studentTQuantile,
+} from "#src/lib/utils/distributions";
+import { getTCritical } from "#src/lib/utils/getTCritical";
+
+function assertClose(actual: number, expected: number, tolerance = 1e-6) {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected)),
+    `expected ${actual} to be within ${tolerance} of ${expected}`,
+  );
+}
+
+describe("getTCritical", () => {
+  it("should match reference two-tailed critical values", () => {
+    // [df, confidence, t]
+    const references: [number, number, number][] = [
+      [1, 0.95, 12.706204736],
+      [2, 0.95, 4.30265273],
+      [3, 0.9, 2.353363435],
+      [5, 0.99, 4.032142984],
+      [10, 0.95, 2.228138852],
+      [20, 0.999, 3.849516275],
+      [30, 0.95, 2.042272456],
+      [100, 0.95, 1.983971519],
+      [1, 0.999, 636.619248768],
+    ];
+
+    for (const [df, confidence, expected] of references) {
+      assertClose(getTCritical(df, confidence), expected);
+    }
+  });
+
+  it("should default to a 95% confidence level", () => {
+    assertClose(getTCritical(10), 2.228138852);
+  });
+
+  it("should approach the normal critical value for large df", () => {
+    assertClose(getTCritical(1e6), 1.959966, 1e-5);
+    assertClose(getTCritical(Infinity), 1.959963985);
+  });
+
+  it("should be continuous past the old lookup table", () => {
+    assert.ok(getTCritical(30) > getTCritical(31));
+    assert.ok(getTCritical(31) > 1.96);
+  });
+
+  it("should throw for invalid arguments", () => {
+    assert.throws(() => getTCritical(0), /Degrees of freedom must be positive/);
+    assert.throws(() => getTCritical(5, 1), /Confidence level must be between 0 and 1/);
+    assert.throws(() => getTCritical(5, 0), /Confidence level must be between 0 and 1/);
+  });
+});
+
+describe("distributions", () => {
+  it("should calculate the normal CDF", () => {
+    assertClose(normalCdf(0), 0.5);
+    assertClose(normalCdf(1.959963985), 0.975);
+    assertClose(normalCdf(-1), 0.158655254);
+  });
+
+  it("should invert the normal CDF", () => {
+    assertClose(normalQuantile(0.975), 1.959963985);
+    assertClose(normalQuantile(0.995), 2.575829304);
+    assertClose(normalQuantile(0.001), -3.090232306);
+  });
+
+  it("should calculate the t CDF", () => {
+    assertClose(studentTCdf(0, 5), 0.5);
+    assertClose(studentTCdf(2.228138852, 10), 0.975);
+    assertClose(studentTCdf(-4.032142984, 5), 0.005);
+  });
+
+  it("should invert the t CDF for fractional degrees of freedom", () => {
+    const t = studentTQuantile(0.9, 7.5);
+    assertClose(studentTCdf(t, 7.5), 0.9, 1e-9);
+    assertClose(studentTQuantile(0.1, 7.5), -t, 1e-9);
+  });
+});
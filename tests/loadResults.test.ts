@@ -0,0 +1,83 @@
+import assert from "node:assert";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { loadResults, RESULTS_SCHEMA_VERSION } from "#src/lib/utils/loadResults";
+
+const result = { name: "Test", samples: [1, 2, 3], totalTime: 6 };
+
+describe("loadResults", () => {
+  it("should load results in the current schema", () => {
+    const data = {
+      schemaVersion: RESULTS_SCHEMA_VERSION,
+      name: "Benchmark",
+      timestamp: "2024-01-01T00:00:00.000Z",
+      results: [result],
+    };
+    assert.deepStrictEqual(loadResults(data), data);
+  });
+
+  it("should migrate results without a schema version", () => {
+    assert.deepStrictEqual(loadResults({ name: "Benchmark", seed: 1, results: [result] }), {
+      schemaVersion: RESULTS_SCHEMA_VERSION,
+      name: "Benchmark",
+      seed: 1,
+      results: [result],
+    });
+    assert.deepStrictEqual(loadResults({ name: "Benchmark", results: [result] }), {
+      schemaVersion: RESULTS_SCHEMA_VERSION,
+      name: "Benchmark",
+      results: [result],
+    });
+  });
+
+  it("should read results from a file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "gud-bench-"));
+    try {
+      const filePath = join(dir, "results.json");
+      writeFileSync(filePath, JSON.stringify({ name: "Benchmark", results: [result] }));
+      assert.strictEqual(loadResults(filePath).schemaVersion, RESULTS_SCHEMA_VERSION);
+
+      writeFileSync(filePath, "{");
+      assert.throws(() => loadResults(filePath), /Couldn't read results from/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should reject newer schema versions", () => {
+    assert.throws(
+      () =>
+        loadResults({ schemaVersion: RESULTS_SCHEMA_VERSION + 1, name: "Benchmark", results: [] }),
+      /newest supported version/,
+    );
+  });
+
+  it("should reject invalid results", () => {
+    assert.throws(() => loadResults([]), /expected an object/);
+    assert.throws(() => loadResults({ results: [] }), /expected a name/);
+    assert.throws(() => loadResults({ name: "Benchmark" }), /expected an array of results/);
+    assert.throws(
+      () => loadResults({ name: "Benchmark", results: [{ ...result, samples: ["1"] }] }),
+      /expected an array of samples for Test/,
+    );
+    assert.throws(
+      () => loadResults({ schemaVersion: 0, name: "Benchmark", results: [] }),
+      /unknown schema version 0/,
+    );
+  });
+
+  it("should reject invalid options", () => {
+    const data = { schemaVersion: RESULTS_SCHEMA_VERSION, name: "Benchmark", results: [result] };
+    assert.throws(() => loadResults({ ...data, options: [] }), /options to be an object/);
+    assert.throws(
+      () => loadResults({ ...data, options: { iterations: 5, maxSamples: null } }),
+      /expected a value for the maxSamples option/,
+    );
+    assert.throws(
+      () => loadResults({ ...data, options: { iterations: "5" } }),
+      /iterations option to be a number/,
+    );
+  });
+});
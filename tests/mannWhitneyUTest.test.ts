@@ -0,0 +1,29 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { mannWhitneyUTest } from "#src/lib/utils/mannWhitneyUTest";
+
+describe("mannWhitneyUTest", () => {
+  it("should match reference values", () => {
+    // R: wilcox.test(c(1, 2, 3, 4, 5), c(6, 7, 8, 9, 10), exact = FALSE)
+    const result = mannWhitneyUTest([1, 2, 3, 4, 5], [6, 7, 8, 9, 10]);
+    assert.strictEqual(result.statistic, 0);
+    assert.ok(Math.abs(result.pValue - 0.01219) < 1e-4);
+    assert.strictEqual(result.effectSize, -1);
+  });
+
+  it("should average the ranks of tied values", () => {
+    const result = mannWhitneyUTest([1, 2, 2, 3], [2, 3, 4, 5]);
+    // Ranks: 1, 3, 3, 5.5 for a; 3, 5.5, 7, 8 for b
+    assert.strictEqual(result.statistic, 12.5 - 10);
+  });
+
+  it("should not find a difference between identical samples", () => {
+    const result = mannWhitneyUTest([1, 2, 3], [1, 2, 3]);
+    assert.strictEqual(result.effectSize, 0);
+    assert.strictEqual(result.pValue, 1);
+  });
+
+  it("should handle constant samples", () => {
+    assert.strictEqual(mannWhitneyUTest([1, 1], [1, 1]).pValue, 1);
+  });
+});
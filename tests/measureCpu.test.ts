@@ -0,0 +1,53 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { type CpuSample, getCpuUsage, measureCpu } from "#src/lib/utils/measureCpu";
+
+function createSample(userTime: number, systemTime: number, wallTime: number): CpuSample {
+  return {
+    userTime,
+    systemTime,
+    wallTime,
+    voluntaryContextSwitches: 1,
+    involuntaryContextSwitches: 2,
+    minorPageFaults: 3,
+    majorPageFaults: 0,
+  };
+}
+
+describe("measureCpu", () => {
+  it("should measure the CPU time spent", () => {
+    const stop = measureCpu();
+    const end = performance.now() + 20;
+    while (performance.now() < end);
+    const sample = stop(20);
+
+    assert.ok(sample.userTime + sample.systemTime > 0);
+    assert.strictEqual(sample.wallTime, 20);
+    assert.ok(sample.voluntaryContextSwitches >= 0);
+    assert.ok(sample.minorPageFaults >= 0);
+  });
+});
+
+describe("getCpuUsage", () => {
+  it("should summarize the samples per call", () => {
+    const usage = getCpuUsage(
+      [createSample(3, 1, 8), createSample(6, 2, 8), createSample(9, 3, 8)],
+      2,
+    );
+
+    assert.strictEqual(usage.userTime, 3);
+    assert.strictEqual(usage.systemTime, 1);
+    assert.strictEqual(usage.meanTime, 4);
+    assert.strictEqual(usage.medianTime, 4);
+    assert.strictEqual(usage.stdDeviation, 2);
+    assert.strictEqual(usage.cpuWallRatio, 1);
+    assert.strictEqual(usage.voluntaryContextSwitches, 3);
+    assert.strictEqual(usage.involuntaryContextSwitches, 6);
+    assert.strictEqual(usage.minorPageFaults, 9);
+    assert.strictEqual(usage.majorPageFaults, 0);
+  });
+
+  it("should have no ratio without wall time", () => {
+    assert.strictEqual(getCpuUsage([createSample(1, 0, 0)], 1).cpuWallRatio, 0);
+  });
+});
@@ -0,0 +1,33 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { observeGC } from "#src/lib/utils/observeGC";
+
+describe("observeGC", () => {
+  it("should record GCs until stopped", async () => {
+    const stop = observeGC();
+    const start = performance.now();
+    for (let i = 0; i < 100; i++) {
+      Array.from({ length: 10000 }, (_, j) => ({ j }));
+    }
+    const events = await stop();
+
+    assert.ok(events.length > 0);
+    for (const { kind, startTime, duration } of events) {
+      assert.ok(["minor", "major", "incremental", "weakcb"].includes(kind));
+      assert.ok(startTime >= start);
+      assert.ok(duration >= 0);
+    }
+  });
+
+  it("should stop recording when stopped", async () => {
+    const stop = observeGC();
+    const events = await stop();
+    const count = events.length;
+    for (let i = 0; i < 100; i++) {
+      Array.from({ length: 10000 }, (_, j) => ({ j }));
+    }
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.strictEqual(events.length, count);
+  });
+});
@@ -0,0 +1,86 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { runConcurrently } from "#src/lib/utils/runConcurrently";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("runConcurrently", () => {
+  it("should keep up to the concurrency in flight", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const indexes: number[] = [];
+
+    const run = await runConcurrently(
+      async (index) => {
+        indexes.push(index);
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await sleep(1);
+        inFlight--;
+      },
+      10,
+      3,
+    );
+
+    assert.strictEqual(maxInFlight, 3);
+    assert.deepStrictEqual(indexes, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    assert.strictEqual(run.latencies.length, 10);
+    assert.ok(run.latencies.every((latency) => latency > 0));
+    assert.ok(run.elapsed > 0);
+    assert.strictEqual(run.interrupted, false);
+    assert.strictEqual(run.timedOut, false);
+  });
+
+  it("should not start more calls than requested", async () => {
+    let calls = 0;
+
+    const run = await runConcurrently(() => calls++, 2, 5);
+
+    assert.strictEqual(calls, 2);
+    assert.strictEqual(run.latencies.length, 2);
+  });
+
+  it("should stop when interrupted", async () => {
+    const run = await runConcurrently(() => new Promise(() => {}), 10, 2, sleep(5));
+
+    assert.strictEqual(run.latencies.length, 0);
+    assert.strictEqual(run.interrupted, true);
+    assert.strictEqual(run.timedOut, false);
+  });
+
+  it("should stop when a call times out", async () => {
+    let calls = 0;
+
+    const run = await runConcurrently(
+      () => (++calls === 3 ? new Promise(() => {}) : sleep(1)),
+      100,
+      2,
+      undefined,
+      20,
+    );
+    await sleep(5);
+
+    assert.strictEqual(run.timedOut, true);
+    assert.strictEqual(run.interrupted, true);
+    assert.ok(run.latencies.length >= 2);
+    assert.ok(calls < 100);
+  });
+
+  it("should reject and stop starting calls when a call fails", async () => {
+    let calls = 0;
+
+    await assert.rejects(
+      runConcurrently(
+        async () => {
+          if (++calls === 3) throw new Error("Nope");
+          await sleep(1);
+        },
+        100,
+        2,
+      ),
+      /Nope/,
+    );
+    await sleep(5);
+
+    assert.ok(calls < 10);
+  });
+});
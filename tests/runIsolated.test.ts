@@ -0,0 +1,61 @@
+import assert from "node:assert";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { runIsolated } from "#src/lib/utils/runIsolated";
+
+describe("runIsolated", () => {
+  const testDir = mkdtempSync(join(tmpdir(), "gud-bench-"));
+  const modulePath = join(testDir, "isolated.mjs");
+  writeFileSync(
+    modulePath,
+    `
+      export const answer = () => 42;
+      export const notAFunction = 42;
+    `,
+  );
+
+  after(() => rmSync(testDir, { recursive: true, force: true }));
+
+  for (const isolation of ["worker", "process"] as const) {
+    it(`should stream samples in chunks from a ${isolation}`, async () => {
+      const chunks: number[][] = [];
+
+      const result = await runIsolated(
+        isolation,
+        {
+          name: "Answer",
+          module: modulePath,
+          export: "answer",
+          iterations: 2500,
+          options: { batchSize: 4 },
+        },
+        (samples) => chunks.push(samples),
+      );
+
+      assert.deepStrictEqual(
+        chunks.map((samples) => samples.length),
+        [1000, 1000, 500],
+      );
+      assert.strictEqual(result.batchSize, 4);
+    });
+  }
+
+  it("should reject with errors from the isolated test", async () => {
+    await assert.rejects(
+      runIsolated(
+        "worker",
+        {
+          name: "Not a function",
+          module: modulePath,
+          export: "notAFunction",
+          iterations: 5,
+          options: {},
+        },
+        () => {},
+      ),
+      /No function exported as notAFunction/,
+    );
+  });
+});
@@ -0,0 +1,28 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { welchTTest } from "#src/lib/utils/welchTTest";
+
+describe("welchTTest", () => {
+  it("should match reference values", () => {
+    // R: t.test(c(1, 2, 3, 4, 5), c(2, 4, 6, 8, 10))
+    const result = welchTTest([1, 2, 3, 4, 5], [2, 4, 6, 8, 10]);
+    assert.ok(Math.abs(result.statistic - -1.897367) < 1e-6);
+    assert.ok(Math.abs(result.df - 5.882353) < 1e-6);
+    assert.ok(Math.abs(result.pValue - 0.107531) < 1e-6);
+  });
+
+  it("should calculate Cohen's d from the pooled standard deviation", () => {
+    // Pooled variance = (4 * 2.5 + 4 * 10) / 8 = 6.25
+    const result = welchTTest([2, 4, 6, 8, 10], [1, 2, 3, 4, 5]);
+    assert.ok(Math.abs(result.effectSize - 3 / 2.5) < 1e-12);
+  });
+
+  it("should handle constant samples", () => {
+    assert.strictEqual(welchTTest([1, 1, 1], [1, 1, 1]).pValue, 1);
+    assert.strictEqual(welchTTest([1, 1, 1], [2, 2, 2]).pValue, 0);
+  });
+
+  it("should require at least 2 samples in each group", () => {
+    assert.throws(() => welchTTest([1], [1, 2]), /at least 2 samples/);
+  });
+});